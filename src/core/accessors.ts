@@ -0,0 +1,101 @@
+import { TernaryPoint, Accessor, AccessorOptions, RecordResult } from '../types';
+
+/**
+ * Check whether accessors are given to read the compositions from records
+ *
+ * @param options - Options that may contain the p1, p2 and p3 accessors
+ * @returns Whether the three accessors are given
+ *
+ * @throws Error - If only some of the accessors are given
+ */
+export function hasAccessors<T>(
+  options: Partial<AccessorOptions<T>>
+): options is AccessorOptions<T> {
+  const given = [options.p1, options.p2, options.p3].filter((a) => a !== undefined).length;
+  if (given > 0 && given < 3) {
+    throw new Error('The p1, p2 and p3 accessors must be given together');
+  }
+  return given === 3;
+}
+
+/**
+ * Read the compositions of a dataset of records
+ *
+ * Values that can't be read as numbers (missing properties, non-numeric
+ * strings, ...) are read as NaN, so that the composition is invalid.
+ *
+ * @param data - Array of records
+ * @param accessors - Accessors reading the three parts of the compositions
+ * @returns Array of ternary compositions, in the order of the records
+ */
+export function readCompositions<T>(data: T[], accessors: AccessorOptions<T>): TernaryPoint[] {
+  const { p1, p2, p3 } = accessors;
+  return data.map((d, i) => [read(d, i, p1), read(d, i, p2), read(d, i, p3)]);
+}
+
+/**
+ * Read the compositions from the records if accessors are given
+ *
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Options that may contain the p1, p2 and p3 accessors
+ * @returns Array of ternary compositions, in the order of the data
+ *
+ * @throws Error - If only some of the accessors are given
+ */
+export function compositions<T>(
+  data: TernaryPoint[] | T[],
+  options: Partial<AccessorOptions<T>>
+): TernaryPoint[] {
+  return hasAccessors(options) ? readCompositions(data as T[], options) : (data as TernaryPoint[]);
+}
+
+/**
+ * Read a value of each record of a dataset (e.g. a weight), as with the
+ * accessors of the compositions
+ *
+ * @param data - Array of records
+ * @param accessor - Accessor reading the value
+ * @returns Array of values (NaN if they can't be read as numbers)
+ */
+export function readValues<T>(data: T[], accessor: Accessor<T>): number[] {
+  return data.map((d, i) => read(d, i, accessor));
+}
+
+/**
+ * Key results back to the records they were computed from
+ *
+ * @param results - Results of color mapping, in the order of the records
+ * @param data - Array of records
+ * @returns Results with their record
+ */
+export function keyResults<R, T>(results: R[], data: T[]): RecordResult<R, T>[] {
+  return results.map((result, i) => ({ ...result, datum: data[i] }));
+}
+
+/**
+ * Read a part of a composition from a record
+ */
+function read<T>(d: T, i: number, accessor: Accessor<T>): number {
+  const value: unknown = typeof accessor === 'function' ? accessor(d, i) : property(d, accessor);
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (value === null || value === undefined || value === '') {
+    return NaN;
+  }
+  return Number(value);
+}
+
+/**
+ * Read a property of a record, or of the properties of a GeoJSON feature
+ */
+function property(d: unknown, name: string): unknown {
+  if (d === null || typeof d !== 'object') {
+    return undefined;
+  }
+  const record = d as Record<string, unknown>;
+  if (record.type === 'Feature' && record.properties && typeof record.properties === 'object') {
+    return (record.properties as Record<string, unknown>)[name];
+  }
+  return record[name];
+}
@@ -0,0 +1,121 @@
+import { TernaryBuffer, ColorBuffer } from '../types';
+
+// Whether the platform stores the least significant byte of integers first,
+// which is the case for virtually all current platforms
+const LITTLE_ENDIAN = new Uint8Array(new Uint32Array([1]).buffer)[0] === 1;
+
+/**
+ * Parts of compositions stored in typed arrays: the part j of the
+ * composition i is stored at `parts[j][i * stride + j * offset]`
+ */
+export interface TernaryColumnsView {
+  parts: [Float64Array, Float64Array, Float64Array];
+  stride: number;
+  offset: number;
+  length: number;
+}
+
+/**
+ * Describe how the parts of compositions are laid out in typed arrays
+ *
+ * @param input - Three columns (p1, p2, p3), or one interleaved array (p1, p2, p3, p1, ...)
+ * @returns Layout of the parts
+ *
+ * @throws Error - If the columns don't have the same length, or if the length
+ *  of the interleaved array is not a multiple of 3
+ */
+export function ternaryColumns(input: TernaryBuffer): TernaryColumnsView {
+  if (input instanceof Float64Array) {
+    if (input.length % 3 !== 0) {
+      throw new Error(
+        `Interleaved compositions must have a length multiple of 3, got ${input.length}`
+      );
+    }
+    return { parts: [input, input, input], stride: 3, offset: 1, length: input.length / 3 };
+  }
+
+  const [p1, p2, p3] = input;
+  if (p1.length !== p2.length || p1.length !== p3.length) {
+    throw new Error(
+      `Composition columns must have the same length, got ${p1.length}, ${p2.length} and ${p3.length}`
+    );
+  }
+  return { parts: [p1, p2, p3], stride: 1, offset: 0, length: p1.length };
+}
+
+/**
+ * Get the buffer receiving the colors of n compositions, creating it if needed
+ *
+ * @param n - Number of compositions
+ * @param output - Buffer provided by the caller
+ * @returns Buffer of RGBA bytes or packed colors
+ *
+ * @throws Error - If the buffer provided is too small
+ */
+export function colorBuffer(n: number, output?: ColorBuffer): ColorBuffer {
+  if (!output) {
+    return new Uint8ClampedArray(4 * n);
+  }
+  const required = output instanceof Uint32Array ? n : 4 * n;
+  if (output.length < required) {
+    throw new Error(`Color buffer is too small: ${required} values required, got ${output.length}`);
+  }
+  return output;
+}
+
+/**
+ * View a buffer of colors as RGBA bytes (packed colors have the byte
+ * layout of ImageData, so they are viewed as their own bytes)
+ *
+ * @param output - Buffer of colors
+ * @returns RGBA bytes sharing the memory of the buffer
+ */
+export function colorBytes(output: ColorBuffer): Uint8ClampedArray {
+  return output instanceof Uint32Array
+    ? new Uint8ClampedArray(output.buffer, output.byteOffset, output.length * 4)
+    : output;
+}
+
+/**
+ * Pack 8-bit RGBA channels in a 32-bit integer with the byte layout of
+ * ImageData, i.e. so that a Uint32Array view of ImageData.data can receive it
+ *
+ * @param r - Red channel [0-255]
+ * @param g - Green channel [0-255]
+ * @param b - Blue channel [0-255]
+ * @param a - Alpha channel [0-255]
+ * @returns Packed color
+ */
+export function packColor(r: number, g: number, b: number, a: number): number {
+  return LITTLE_ENDIAN
+    ? ((a << 24) | (b << 16) | (g << 8) | r) >>> 0
+    : ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+}
+
+/**
+ * Write a color in a buffer of RGBA bytes or packed colors
+ *
+ * @param output - Buffer of colors
+ * @param i - Index of the composition
+ * @param r - Red channel [0-255]
+ * @param g - Green channel [0-255]
+ * @param b - Blue channel [0-255]
+ * @param a - Alpha channel [0-255]
+ */
+export function writeColor(
+  output: ColorBuffer,
+  i: number,
+  r: number,
+  g: number,
+  b: number,
+  a: number
+): void {
+  if (output instanceof Uint32Array) {
+    output[i] = packColor(r, g, b, a);
+  } else {
+    output[4 * i] = r;
+    output[4 * i + 1] = g;
+    output[4 * i + 2] = b;
+    output[4 * i + 3] = a;
+  }
+}
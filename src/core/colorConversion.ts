@@ -0,0 +1,188 @@
+import { ColorSpace } from '../types';
+
+// D65 illuminant constants
+const X_N = 0.95047;
+const Y_N = 1.0;
+const Z_N = 1.08883;
+
+// D65 white point chromaticity (used by CIELUV)
+const U_N = (4 * X_N) / (X_N + 15 * Y_N + 3 * Z_N);
+const V_N = (9 * Y_N) / (X_N + 15 * Y_N + 3 * Z_N);
+
+// OKLCH chroma reference: 150 in CIE units corresponds to 0.4 in OKLCH,
+// following the percentage reference ranges of CSS Color 4
+const OKLCH_CHROMA_FACTOR = 0.4 / 150;
+
+/**
+ * Conversions between cylindrical color spaces and sRGB
+ *
+ * Lightness and chroma are always expressed with the CIE ranges used by the
+ * tricolore options (lightness in [0-100], chroma in [0-200]), and are scaled
+ * to the native ranges of the target color space when needed.
+ */
+export class ColorConversion {
+  /**
+   * Convert LCh color to (gamma-corrected) sRGB, without clamping
+   * the channels to [0, 1]
+   *
+   * @param h - Hue [0-360]
+   * @param c - Chroma [0-200]
+   * @param l - Lightness [0-100]
+   * @param colorSpace - Color space in which h, c and l are expressed
+   * @returns sRGB channels (may lie outside [0, 1] for out-of-gamut colors)
+   */
+  static lchToSrgb(
+    h: number,
+    c: number,
+    l: number,
+    colorSpace: ColorSpace = 'lch-ab'
+  ): [number, number, number] {
+    const hRad = (h * Math.PI) / 180;
+    const cosH = Math.cos(hRad);
+    const sinH = Math.sin(hRad);
+
+    let linear: [number, number, number];
+    if (colorSpace === 'oklch') {
+      const C = c * OKLCH_CHROMA_FACTOR;
+      linear = this.oklabToLinearSrgb(l / 100, C * cosH, C * sinH);
+    } else if (colorSpace === 'lch-uv') {
+      linear = this.xyzToLinearSrgb(...this.luvToXyz(l, c * cosH, c * sinH));
+    } else {
+      linear = this.xyzToLinearSrgb(...this.labToXyz(l, c * cosH, c * sinH));
+    }
+
+    return [this.gamma(linear[0]), this.gamma(linear[1]), this.gamma(linear[2])];
+  }
+
+  /**
+   * Convert (gamma-corrected) sRGB color to LCh
+   *
+   * @param rgb - sRGB channels in [0, 1]
+   * @param colorSpace - Color space in which the result is expressed
+   * @returns [h, c, l] with hue in [0-360], chroma and lightness in CIE ranges
+   */
+  static srgbToLch(
+    rgb: [number, number, number],
+    colorSpace: ColorSpace = 'lch-ab'
+  ): [number, number, number] {
+    const r = this.linear(rgb[0]);
+    const g = this.linear(rgb[1]);
+    const b = this.linear(rgb[2]);
+
+    let l: number;
+    let u: number;
+    let v: number;
+    if (colorSpace === 'oklch') {
+      const [L, A, B] = this.linearSrgbToOklab(r, g, b);
+      l = L * 100;
+      u = A / OKLCH_CHROMA_FACTOR;
+      v = B / OKLCH_CHROMA_FACTOR;
+    } else if (colorSpace === 'lch-uv') {
+      [l, u, v] = this.xyzToLuv(...this.linearSrgbToXyz(r, g, b));
+    } else {
+      [l, u, v] = this.xyzToLab(...this.linearSrgbToXyz(r, g, b));
+    }
+
+    const h = ((Math.atan2(v, u) * 180) / Math.PI + 360) % 360;
+    const c = Math.sqrt(u * u + v * v);
+
+    return [h, c, l];
+  }
+
+  /**
+   * Apply sRGB gamma correction to a linear channel value
+   */
+  private static gamma(v: number): number {
+    return v > 0.0031308 ? 1.055 * v ** (1 / 2.4) - 0.055 : 12.92 * v;
+  }
+
+  /**
+   * Remove sRGB gamma correction from a channel value
+   */
+  private static linear(v: number): number {
+    return v > 0.04045 ? ((v + 0.055) / 1.055) ** 2.4 : v / 12.92;
+  }
+
+  private static xyzToLinearSrgb(X: number, Y: number, Z: number): [number, number, number] {
+    return [
+      3.2406 * X - 1.5372 * Y - 0.4986 * Z,
+      -0.9689 * X + 1.8758 * Y + 0.0415 * Z,
+      0.0557 * X - 0.204 * Y + 1.057 * Z,
+    ];
+  }
+
+  private static linearSrgbToXyz(r: number, g: number, b: number): [number, number, number] {
+    return [
+      0.4124 * r + 0.3576 * g + 0.1805 * b,
+      0.2126 * r + 0.7152 * g + 0.0722 * b,
+      0.0193 * r + 0.1192 * g + 0.9505 * b,
+    ];
+  }
+
+  private static labToXyz(l: number, a: number, b: number): [number, number, number] {
+    const y = (l + 16) / 116;
+    const x = a / 500 + y;
+    const z = y - b / 200;
+
+    const fx = x > 0.206893034 ? x ** 3 : (x - 16 / 116) / 7.787;
+    const fy = y > 0.206893034 ? y ** 3 : (y - 16 / 116) / 7.787;
+    const fz = z > 0.206893034 ? z ** 3 : (z - 16 / 116) / 7.787;
+
+    return [X_N * fx, Y_N * fy, Z_N * fz];
+  }
+
+  private static xyzToLab(X: number, Y: number, Z: number): [number, number, number] {
+    const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+    const fx = f(X / X_N);
+    const fy = f(Y / Y_N);
+    const fz = f(Z / Z_N);
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+  }
+
+  private static luvToXyz(l: number, u: number, v: number): [number, number, number] {
+    if (l <= 0) return [0, 0, 0];
+
+    const Y = Y_N * (l > 8 ? ((l + 16) / 116) ** 3 : (l * 27) / 24389);
+    const up = u / (13 * l) + U_N;
+    const vp = v / (13 * l) + V_N;
+
+    return [(Y * 9 * up) / (4 * vp), Y, (Y * (12 - 3 * up - 20 * vp)) / (4 * vp)];
+  }
+
+  private static xyzToLuv(X: number, Y: number, Z: number): [number, number, number] {
+    const denominator = X + 15 * Y + 3 * Z;
+    if (denominator === 0) return [0, 0, 0];
+
+    const yr = Y / Y_N;
+    const l = yr > 216 / 24389 ? 116 * Math.cbrt(yr) - 16 : (yr * 24389) / 27;
+    const up = (4 * X) / denominator;
+    const vp = (9 * Y) / denominator;
+
+    return [l, 13 * l * (up - U_N), 13 * l * (vp - V_N)];
+  }
+
+  private static oklabToLinearSrgb(L: number, a: number, b: number): [number, number, number] {
+    const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+    return [
+      4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+      -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+      -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+    ];
+  }
+
+  private static linearSrgbToOklab(r: number, g: number, b: number): [number, number, number] {
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+    return [
+      0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+      1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+      0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    ];
+  }
+}
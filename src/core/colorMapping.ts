@@ -1,6 +1,21 @@
-import { TernaryPoint, TricoloreResult, SextantResult, RGBColor } from '../types';
+import {
+  TernaryPoint,
+  TricoloreResult,
+  SextantResult,
+  RGBColor,
+  GamutMapping,
+  GamutMappedColor,
+  ColorSpace,
+  TricoloreInversion,
+  TernaryCentroid,
+  TernaryBuffer,
+  ColorBuffer,
+} from '../types';
+import { ColorConversion } from './colorConversion';
 import { CompositionUtils } from './compositionUtils';
 import { TernaryGeometry } from './ternaryGeometry';
+import { ternaryColumns, colorBuffer, colorBytes, writeColor } from './colorBuffer';
+import { tricolorePixels } from './pixelKernel';
 
 /**
  * Color mapping functions
@@ -18,7 +33,11 @@ export class ColorMapping {
    * @param lightness - Lightness [0-100]
    * @param contrast - Contrast [0-1]
    * @param spread - Spread around center (>0)
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which hue, chroma and lightness are defined
    * @returns Array of color results
+   *
+   * @throws Error - If the center has parts that are not strictly positive
    */
   static colorMapTricolore(
     P: TernaryPoint[],
@@ -28,8 +47,15 @@ export class ColorMapping {
     chroma: number = 140,
     lightness: number = 80,
     contrast: number = 0.4,
-    spread: number = 1
+    spread: number = 1,
+    gamutMapping: GamutMapping = 'clip',
+    colorSpace: ColorSpace = 'lch-ab'
   ): TricoloreResult[] {
+    // The data are centered by perturbation with the inverse of the center
+    if (!center.every((v) => v > 0 && Number.isFinite(v))) {
+      throw new Error(`Center parts must be strictly positive, got [${center.join(', ')}]`);
+    }
+
     // Copy input and ensure compositions are closed
     const P_notrans = CompositionUtils.close([...P]);
 
@@ -38,11 +64,10 @@ export class ColorMapping {
 
     // Discretize if breaks < 100 and breaks is finite
     // (i.e. use breaks = Infinity for continuous scale)
+    let cells: (TernaryCentroid | null)[] | null = null;
     if (Number.isFinite(breaks) && breaks < 100) {
-      const centroids = TernaryGeometry.ternaryMeshCentroids(breaks).map(
-        (c) => [c.p1, c.p2, c.p3] as TernaryPoint
-      );
-      closed = TernaryGeometry.ternaryNearest(closed, centroids);
+      cells = TernaryGeometry.ternaryMeshCells(closed, breaks);
+      closed = cells.map((c) => (c ? [c.p1, c.p2, c.p3] : null));
     }
 
     // Center and scale
@@ -66,6 +91,10 @@ export class ColorMapping {
           c: null,
           l: null,
           rgb: null,
+          inGamut: null,
+          effectiveChroma: null,
+          cell: null,
+          centroid: null,
         } as TricoloreResult;
       }
 
@@ -98,7 +127,7 @@ export class ColorMapping {
       const adjustedC = cfactor * c;
 
       // Convert to hex RGB
-      const rgb = this.hclToHex(h, adjustedC, l);
+      const color = this.hclToColor(h, adjustedC, l, gamutMapping, colorSpace);
 
       return {
         p1: P_notrans[i]![0],
@@ -107,7 +136,12 @@ export class ColorMapping {
         h,
         c: adjustedC,
         l,
-        rgb,
+        rgb: color.rgb,
+        inGamut: color.inGamut,
+        effectiveChroma: color.chroma,
+        // For a discrete scale, the compositions were snapped to the centroids
+        cell: cells ? cells[i]!.id : null,
+        centroid: cells ? closed[i] : null,
       };
     });
   }
@@ -161,61 +195,496 @@ export class ColorMapping {
     });
   }
 
+  /**
+   * Map ternary compositions stored in typed arrays to colors using balance
+   * scheme, writing the colors in a buffer
+   *
+   * This gives the same colors as colorMapTricolore without allocating
+   * intermediate arrays, for large datasets such as rasters. Invalid
+   * compositions are written as transparent black.
+   *
+   * @param input - Three columns (p1, p2, p3), or one interleaved array
+   * @param center - Center of color scale
+   * @param breaks - Number of breaks for discretization
+   *  (use Infinity or null or a value > 100 for continuous scale)
+   * @param hue - Primary hue in degrees [0-360]
+   * @param chroma - Maximum chroma [0-200]
+   * @param lightness - Lightness [0-100]
+   * @param contrast - Contrast [0-1]
+   * @param spread - Spread around center (>0)
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which hue, chroma and lightness are defined
+   * @param output - Buffer receiving the colors, as RGBA bytes or packed colors
+   *  (a new RGBA buffer is created if not given)
+   * @returns The buffer of colors
+   *
+   * @throws Error - If the center has parts that are not strictly positive,
+   *  or if the input or the output buffer has an invalid length
+   */
+  static colorMapTricoloreBuffer(
+    input: TernaryBuffer,
+    center: TernaryPoint = [1 / 3, 1 / 3, 1 / 3],
+    breaks: number = 4,
+    hue: number = 80,
+    chroma: number = 140,
+    lightness: number = 80,
+    contrast: number = 0.4,
+    spread: number = 1,
+    gamutMapping: GamutMapping = 'clip',
+    colorSpace: ColorSpace = 'lch-ab',
+    output?: ColorBuffer
+  ): ColorBuffer {
+    if (!center.every((v) => v > 0 && Number.isFinite(v))) {
+      throw new Error(`Center parts must be strictly positive, got [${center.join(', ')}]`);
+    }
+
+    const view = ternaryColumns(input);
+    const colors = colorBuffer(view.length, output);
+    const discrete = Number.isFinite(breaks) && breaks < 100;
+
+    tricolorePixels(view, colorBytes(colors), {
+      center,
+      breaks,
+      centroids: discrete
+        ? Float64Array.from(
+            TernaryGeometry.ternaryMeshCentroids(breaks).flatMap((c) => [c.p1, c.p2, c.p3])
+          )
+        : null,
+      hue,
+      chroma,
+      lightness,
+      contrast,
+      spread,
+      gamutMapping,
+      colorSpace,
+    });
+
+    return colors;
+  }
+
+  /**
+   * Map ternary compositions stored in typed arrays to colors using sextant
+   * scheme, writing the colors in a buffer
+   *
+   * Invalid compositions, and compositions exactly at the center,
+   * are written as transparent black.
+   *
+   * @param input - Three columns (p1, p2, p3), or one interleaved array
+   * @param center - Center of sextant division
+   * @param values - Array of 6 color values for sextants
+   * @param output - Buffer receiving the colors, as RGBA bytes or packed colors
+   *  (a new RGBA buffer is created if not given)
+   * @returns The buffer of colors
+   *
+   * @throws Error - If values doesn't contain 6 valid hex colors,
+   *  or if the input or the output buffer has an invalid length
+   */
+  static colorMapSextantBuffer(
+    input: TernaryBuffer,
+    center: TernaryPoint = [1 / 3, 1 / 3, 1 / 3],
+    values: RGBColor[] = ['#FFFF00', '#B3DCC3', '#01A0C6', '#B8B3D8', '#F11D8C', '#FFB3B3'],
+    output?: ColorBuffer
+  ): ColorBuffer {
+    if (values.length !== 6) {
+      throw new Error('Sextant values array must have exactly 6 elements');
+    }
+
+    const { parts, stride, offset, length } = ternaryColumns(input);
+    const colors = colorBuffer(length, output);
+    const rgb = values.map((v) => this.hexToRgb(v));
+
+    for (let i = 0; i < length; i++) {
+      const p1 = parts[0][i * stride];
+      const p2 = parts[1][i * stride + offset];
+      const p3 = parts[2][i * stride + 2 * offset];
+
+      const sum = p1 + p2 + p3;
+      const sextant =
+        p1 >= 0 && p2 >= 0 && p3 >= 0 && sum > 0 && Number.isFinite(sum)
+          ? TernaryGeometry.ternarySurroundingSextant([[p1 / sum, p2 / sum, p3 / sum]], center)[0]
+          : null;
+
+      if (sextant === null) {
+        writeColor(colors, i, 0, 0, 0, 0);
+      } else {
+        const [r, g, b] = rgb[sextant - 1];
+        writeColor(colors, i, r, g, b, 255);
+      }
+    }
+
+    return colors;
+  }
+
+  /**
+   * Recover the ternary composition encoded by a color of the balance scheme
+   *
+   * For a continuous scale the composition is computed analytically from the
+   * hue, chroma and lightness of the color, then refined numerically when the
+   * color was altered by gamut mapping. For a discrete scale the color is
+   * matched against the colors of the mesh cells.
+   *
+   * @param color - Hex RGB color to invert
+   * @param center - Center of color scale
+   * @param breaks - Number of breaks for discretization
+   *  (use Infinity or null or a value > 100 for continuous scale)
+   * @param hue - Primary hue in degrees [0-360]
+   * @param chroma - Maximum chroma [0-200]
+   * @param lightness - Lightness [0-100]
+   * @param contrast - Contrast [0-1]
+   * @param spread - Spread around center (>0)
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which hue, chroma and lightness are defined
+   * @param tolerance - Maximum difference allowed on each 8-bit channel
+   *  between the color and the color of the recovered composition
+   * @returns The composition (and mesh cell id for a discrete scale),
+   *  or null if the color is not on the scale
+   *
+   * @throws Error - If the color is not a valid hex color
+   */
+  static invertTricolore(
+    color: RGBColor,
+    center: TernaryPoint = [1 / 3, 1 / 3, 1 / 3],
+    breaks: number = 4,
+    hue: number = 80,
+    chroma: number = 140,
+    lightness: number = 80,
+    contrast: number = 0.4,
+    spread: number = 1,
+    gamutMapping: GamutMapping = 'clip',
+    colorSpace: ColorSpace = 'lch-ab',
+    tolerance: number = 2
+  ): TricoloreInversion | null {
+    const target = this.hexToRgb(color);
+
+    // Color of a single composition on the (continuous) scale
+    const colorOf = (p: TernaryPoint) => {
+      const { rgb } = this.colorMapTricolore(
+        [p],
+        center,
+        Infinity,
+        hue,
+        chroma,
+        lightness,
+        contrast,
+        spread,
+        gamutMapping,
+        colorSpace
+      )[0];
+      return rgb ? this.hexToRgb(rgb) : null;
+    };
+
+    // Largest difference between the target and another color, channel-wise
+    const distance = (rgb: [number, number, number] | null) =>
+      rgb ? Math.max(...rgb.map((v, j) => Math.abs(v - target[j]))) : Infinity;
+
+    // Discrete scale: look for the mesh cell with the closest color
+    if (Number.isFinite(breaks) && breaks < 100) {
+      let best: TricoloreInversion | null = null;
+      let bestDistance = Infinity;
+      TernaryGeometry.ternaryMeshCentroids(breaks).forEach((c) => {
+        const d = distance(colorOf([c.p1, c.p2, c.p3]));
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = { p1: c.p1, p2: c.p2, p3: c.p3, cell: c.id };
+        }
+      });
+      return bestDistance <= tolerance ? best : null;
+    }
+
+    // Continuous scale: invert the color model analytically
+    const [h, adjustedC, l] = ColorConversion.srgbToLch(
+      target.map((v) => v / 255) as [number, number, number],
+      colorSpace
+    );
+    const cfactor = l / lightness;
+    if (!(cfactor > 0)) {
+      return null;
+    }
+
+    // Chroma before contrast adjustment, estimated from the rendered chroma
+    // and, as it survives chroma reduction, from the rendered lightness
+    const candidates = [adjustedC / cfactor];
+    if (contrast > 0) {
+      candidates.push(((cfactor - 1 + contrast) * chroma) / contrast);
+    }
+
+    const phi = [hue, hue + 120, hue + 240].map((v) => (v * Math.PI) / 180);
+    const hRad = (h * Math.PI) / 180;
+
+    let best: TernaryPoint | null = null;
+    let bestDistance = Infinity;
+    candidates.forEach((c) => {
+      // Proportions such that sum(q_j * chroma * exp(i * phi_j)) = c * exp(i * h)
+      const q = phi.map((angle) =>
+        Math.max(0, 1 / 3 + (2 * c * Math.cos(hRad - angle)) / (3 * chroma))
+      );
+
+      // Undo power scaling and centering
+      const unscaled = q.map((v) => Math.pow(v, 1 / spread));
+      const p = CompositionUtils.close([
+        [unscaled[0] * center[0], unscaled[1] * center[1], unscaled[2] * center[2]],
+      ])[0];
+      if (!p) return;
+
+      const d = distance(colorOf(p));
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = p;
+      }
+    });
+
+    if (!best) {
+      return null;
+    }
+
+    // Colors altered by gamut mapping can't be inverted analytically:
+    // refine the composition with a pattern search on the color difference
+    if (bestDistance > tolerance) {
+      const directions: TernaryPoint[] = [
+        [1, -1, 0],
+        [-1, 1, 0],
+        [1, 0, -1],
+        [-1, 0, 1],
+        [0, 1, -1],
+        [0, -1, 1],
+      ];
+      const squaredDistance = (rgb: [number, number, number] | null) =>
+        rgb ? rgb.reduce((sum, v, j) => sum + (v - target[j]) ** 2, 0) : Infinity;
+
+      // Start from the analytic estimate or from the closest point of a coarse mesh
+      let current: TernaryPoint = best;
+      let currentDistance = squaredDistance(colorOf(current));
+      TernaryGeometry.ternaryMeshCentroids(10).forEach((c) => {
+        const candidate: TernaryPoint = [c.p1, c.p2, c.p3];
+        const d = squaredDistance(colorOf(candidate));
+        if (d < currentDistance) {
+          current = candidate;
+          currentDistance = d;
+        }
+      });
+      for (let step = 0.05; step > 1e-4;) {
+        let improved = false;
+        for (const dir of directions) {
+          const candidate = current.map((v, j) => v + step * dir[j]) as TernaryPoint;
+          if (candidate.some((v) => v < 0)) continue;
+          const d = squaredDistance(colorOf(candidate));
+          if (d < currentDistance) {
+            current = candidate;
+            currentDistance = d;
+            improved = true;
+          }
+        }
+        if (!improved) step /= 2;
+      }
+
+      best = current;
+      bestDistance = distance(colorOf(current));
+    }
+
+    if (bestDistance > tolerance) {
+      return null;
+    }
+
+    const [p1, p2, p3] = best;
+    return { p1, p2, p3, cell: null };
+  }
+
+  /**
+   * Recover the sextant encoded by a color of the sextant scheme
+   *
+   * @param color - Hex RGB color to invert
+   * @param values - Array of 6 color values for sextants
+   * @param tolerance - Maximum difference allowed on each 8-bit channel
+   *  between the color and the color of the sextant
+   * @returns The sextant id (1-6), or null if the color is not on the scale
+   *
+   * @throws Error - If a color is not a valid hex color
+   */
+  static invertSextant(
+    color: RGBColor,
+    values: RGBColor[] = ['#FFFF00', '#B3DCC3', '#01A0C6', '#B8B3D8', '#F11D8C', '#FFB3B3'],
+    tolerance: number = 0
+  ): number | null {
+    if (values.length !== 6) {
+      throw new Error('Sextant values array must have exactly 6 elements');
+    }
+
+    const target = this.hexToRgb(color);
+    const index = values.findIndex((value) =>
+      this.hexToRgb(value).every((v, j) => Math.abs(v - target[j]) <= tolerance)
+    );
+
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Parse a Hex RGB color
+   *
+   * @param color - Hex RGB string (e.g. "#FF0000" or "#F00")
+   * @returns 8-bit [r, g, b] channels
+   *
+   * @throws Error - If the color is not a valid hex color
+   */
+  static hexToRgb(color: RGBColor): [number, number, number] {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+    if (!match) {
+      throw new Error(`Invalid hex color: ${color}`);
+    }
+
+    const hex =
+      match[1].length === 3
+        ? match[1]
+            .split('')
+            .map((v) => v + v)
+            .join('')
+        : match[1];
+
+    return [
+      parseInt(hex.slice(0, 2), 16),
+      parseInt(hex.slice(2, 4), 16),
+      parseInt(hex.slice(4, 6), 16),
+    ];
+  }
+
   /**
    * Convert HCL color to Hex RGB
    *
    * @param h - Hue [0-360]
    * @param c - Chroma [0-200]
    * @param l - Lightness [0-100]
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which h, c and l are expressed
    * @returns Hex RGB string
    */
-  static hclToHex(h: number, c: number, l: number): RGBColor {
-    // Implementation based on d3-color conversions
-    // First normalize values
+  static hclToHex(
+    h: number,
+    c: number,
+    l: number,
+    gamutMapping: GamutMapping = 'clip',
+    colorSpace: ColorSpace = 'lch-ab'
+  ): RGBColor {
+    return this.hclToColor(h, c, l, gamutMapping, colorSpace).rgb;
+  }
+
+  /**
+   * Convert HCL color to Hex RGB, reporting whether the requested color
+   * fits in the sRGB gamut and which chroma was actually rendered
+   *
+   * @param h - Hue [0-360]
+   * @param c - Chroma [0-200]
+   * @param l - Lightness [0-100]
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which h, c and l are expressed
+   * @returns Converted color and gamut information
+   */
+  static hclToColor(
+    h: number,
+    c: number,
+    l: number,
+    gamutMapping: GamutMapping = 'clip',
+    colorSpace: ColorSpace = 'lch-ab'
+  ): GamutMappedColor {
+    [h, c, l] = this.normalizeHcl(h, c, l);
+
+    const rgb = ColorConversion.lchToSrgb(h, c, l, colorSpace);
+
+    if (this.isInSrgbGamut(rgb)) {
+      return { rgb: this.srgbToHex(rgb), inGamut: true, chroma: c };
+    }
+
+    if (gamutMapping === 'chroma') {
+      const fitted = this.fitChroma(h, c, l, colorSpace);
+      return {
+        rgb: this.srgbToHex(ColorConversion.lchToSrgb(h, fitted, l, colorSpace)),
+        inGamut: false,
+        chroma: fitted,
+      };
+    }
+
+    // 'clip': clamp each channel, then measure the chroma of what is rendered
+    const clipped = rgb.map((v) => Math.max(0, Math.min(1, v))) as [number, number, number];
+    return {
+      rgb: this.srgbToHex(clipped),
+      inGamut: false,
+      chroma: ColorConversion.srgbToLch(clipped, colorSpace)[1],
+    };
+  }
+
+  /**
+   * Convert HCL color to (gamma-corrected) sRGB, bringing it into the gamut
+   *
+   * @param h - Hue [0-360]
+   * @param c - Chroma [0-200]
+   * @param l - Lightness [0-100]
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which h, c and l are expressed
+   * @returns sRGB channels in [0, 1]
+   */
+  static hclToSrgb(
+    h: number,
+    c: number,
+    l: number,
+    gamutMapping: GamutMapping = 'clip',
+    colorSpace: ColorSpace = 'lch-ab'
+  ): [number, number, number] {
+    [h, c, l] = this.normalizeHcl(h, c, l);
+
+    let rgb = ColorConversion.lchToSrgb(h, c, l, colorSpace);
+    if (gamutMapping === 'chroma' && !this.isInSrgbGamut(rgb)) {
+      rgb = ColorConversion.lchToSrgb(h, this.fitChroma(h, c, l, colorSpace), l, colorSpace);
+    }
+
+    return [
+      Math.max(0, Math.min(1, rgb[0])),
+      Math.max(0, Math.min(1, rgb[1])),
+      Math.max(0, Math.min(1, rgb[2])),
+    ];
+  }
+
+  /**
+   * Bring hue into [0, 360), and clamp chroma and lightness to their ranges
+   */
+  private static normalizeHcl(h: number, c: number, l: number): [number, number, number] {
     h = h % 360;
     if (h < 0) h += 360;
 
-    // Scale c and L to typical ranges
-    c = Math.max(0, Math.min(c, 230)); // Max ~230
-    l = Math.max(0, Math.min(l, 100));
+    // Chroma is clamped to ~230, the maximum of the supported color spaces
+    return [h, Math.max(0, Math.min(c, 230)), Math.max(0, Math.min(l, 100))];
+  }
 
-    // Convert HCL to LAB
-    const hRad = (h * Math.PI) / 180;
-    const a = Math.cos(hRad) * c;
-    const _b = Math.sin(hRad) * c;
-
-    // Convert LAB to XYZ
-    const y = (l + 16) / 116;
-    const x = a / 500 + y;
-    const z = y - _b / 200;
-
-    // D65 illuminant constants
-    const X_n = 0.95047;
-    const Y_n = 1.0;
-    const Z_n = 1.08883;
-
-    const fx = x > 0.206893034 ? x ** 3 : (x - 16 / 116) / 7.787;
-    const fy = y > 0.206893034 ? y ** 3 : (y - 16 / 116) / 7.787;
-    const fz = z > 0.206893034 ? z ** 3 : (z - 16 / 116) / 7.787;
-
-    const X = X_n * fx;
-    const Y = Y_n * fy;
-    const Z = Z_n * fz;
-
-    // Convert XYZ to sRGB
-    let r = 3.2406 * X - 1.5372 * Y - 0.4986 * Z;
-    let g = -0.9689 * X + 1.8758 * Y + 0.0415 * Z;
-    let b = 0.0557 * X - 0.204 * Y + 1.057 * Z;
-
-    // Apply gamma correction and clamp
-    const gamma = (v: number) => {
-      return v > 0.0031308 ? 1.055 * v ** (1 / 2.4) - 0.055 : 12.92 * v;
-    };
+  /**
+   * Find the largest chroma for which a color of given hue and lightness
+   * fits in the sRGB gamut
+   */
+  private static fitChroma(h: number, c: number, l: number, colorSpace: ColorSpace): number {
+    // Bisect on chroma, keeping hue and lightness, until the color fits
+    // (a chroma of 0 is always in gamut since it is a shade of gray)
+    let lo = 0;
+    let hi = c;
+    for (let i = 0; i < 24; i++) {
+      const mid = (lo + hi) / 2;
+      if (this.isInSrgbGamut(ColorConversion.lchToSrgb(h, mid, l, colorSpace))) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
 
-    r = gamma(r);
-    g = gamma(g);
-    b = gamma(b);
+  /**
+   * Whether a (gamma-corrected) sRGB color is displayable, i.e. whether
+   * clamping its channels would not change its 8-bit representation
+   */
+  private static isInSrgbGamut(rgb: [number, number, number]): boolean {
+    const tolerance = 0.5 / 255;
+    return rgb.every((v) => v >= -tolerance && v <= 1 + tolerance);
+  }
 
+  /**
+   * Convert (gamma-corrected) sRGB color to Hex RGB, clamping the channels
+   */
+  private static srgbToHex(rgb: [number, number, number]): RGBColor {
     // Clamp and convert to 8-bit
     const clamp = (v: number) => Math.max(0, Math.min(1, v));
     const to8bit = (v: number) => Math.round(clamp(v) * 255);
@@ -226,6 +695,6 @@ export class ColorMapping {
       return hex.length === 1 ? '0' + hex : hex;
     };
 
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+    return `#${toHex(rgb[0])}${toHex(rgb[1])}${toHex(rgb[2])}`;
   }
 }
@@ -1,4 +1,10 @@
-import { TernaryPoint } from '../types';
+import {
+  TernaryPoint,
+  ZeroReplacement,
+  ValidationMode,
+  ValidationIssue,
+  ValidationReason,
+} from '../types';
 
 /**
  * Utility functions for compositional data analysis
@@ -36,6 +42,33 @@ export class CompositionUtils {
     return [g1 / sum, g2 / sum, g3 / sum];
   }
 
+  /**
+   * Calculate the total variance of a compositional dataset, i.e. the sum
+   * of the variances of its centered log-ratio (clr) coordinates
+   *
+   * @param P - Array of ternary points (points containing zeros are ignored)
+   * @returns The total variance
+   */
+  static totalVariance(P: TernaryPoint[]): number {
+    // Centered log-ratio transform of the points without zeros
+    const clr = P.filter((p) => p.every((v) => v > 0)).map((p) => {
+      const logs = p.map(Math.log);
+      const mean = (logs[0] + logs[1] + logs[2]) / 3;
+      return logs.map((v) => v - mean);
+    });
+    if (clr.length === 0) {
+      return 0;
+    }
+
+    // Sum of the variances of each clr coordinate
+    let total = 0;
+    for (let j = 0; j < 3; j++) {
+      const mean = clr.reduce((sum, x) => sum + x[j], 0) / clr.length;
+      total += clr.reduce((sum, x) => sum + (x[j] - mean) ** 2, 0) / clr.length;
+    }
+    return total;
+  }
+
   /**
    * Perturbe a compositional dataset by a compositional vector
    *
@@ -76,41 +109,148 @@ export class CompositionUtils {
    *
    * @param P - Array of ternary points
    * @returns Closed compositions
+   *  (null for invalid, negative or zero-sum compositions)
    */
   static close(P: TernaryPoint[]): (TernaryPoint | null)[] {
     return P.map((p) => {
-      if (!this.isValidTernary(p)) {
+      if (!this.isValidTernary(p) || p.some((v) => v < 0)) {
         return null;
       }
       const sum = p[0] + p[1] + p[2];
+      if (sum === 0) {
+        return null;
+      }
       return [p[0] / sum, p[1] / sum, p[2] / sum];
     });
   }
 
+  /**
+   * Replace the zero parts of compositions by a small positive value
+   *
+   * - 'multiplicative': zeros are replaced by delta and the other parts are
+   *   shrunk so that the composition still sums to 1, which preserves
+   *   the ratios between the non-zero parts
+   * - 'additive': delta is added to every part before closing
+   * - 'none': compositions are only closed
+   *
+   * @param P - Array of ternary points
+   * @param method - Zero replacement strategy
+   * @param delta - Value replacing zeros (as a proportion, > 0)
+   * @returns Closed compositions without zeros
+   */
+  static replaceZeros(
+    P: TernaryPoint[],
+    method: ZeroReplacement = 'multiplicative',
+    delta: number = 1e-3
+  ): (TernaryPoint | null)[] {
+    return this.close(P).map((p) => {
+      if (!p || method === 'none' || !this.hasZeros(p)) return p;
+
+      if (method === 'additive') {
+        const sum = 1 + 3 * delta;
+        return [(p[0] + delta) / sum, (p[1] + delta) / sum, (p[2] + delta) / sum];
+      }
+
+      const zeros = p.filter((v) => v === 0).length;
+      return p.map((v) => (v === 0 ? delta : v * (1 - zeros * delta))) as TernaryPoint;
+    });
+  }
+
+  /**
+   * Whether a composition contains zero parts
+   */
+  static hasZeros(point: TernaryPoint): boolean {
+    return point[0] === 0 || point[1] === 0 || point[2] === 0;
+  }
+
   /**
    * Validate ternary points
    *
-   * @param P - Array of ternary points to validate
-   * @throws Error if any point has negative values or values don't sum to approximately 1
+   * Points that are not closed are reported with the 'closed' action, as they
+   * can be closed before use; other invalid points are reported with the
+   * 'excluded' action.
+   *
+   * @param P - Array of ternary points to validate (null entries are ignored)
+   * @param mode - What to do with invalid points: throw an error ('strict'),
+   *  log a warning ('warn') or only report them ('skip')
+   * @returns The list of the invalid points, with the reason and the action taken
+   * @throws Error in 'strict' mode if any point is invalid, e.g. has negative values
+   *  or values that don't sum to approximately 1
    */
-  static validateTernaryPoints(P: (TernaryPoint | null)[]): void {
+  static validateTernaryPoints(
+    P: (TernaryPoint | null)[],
+    mode: ValidationMode = 'strict'
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
     for (let i = 0; i < P.length; i++) {
       const p = P[i];
       if (!p) {
         continue;
       }
-      if (p.length !== 3) {
-        throw new Error(`Ternary point must have exactly 3 components, got ${p.length}`);
+      const reason = this.ternaryIssue(p);
+      if (!reason) {
+        continue;
       }
-
-      if (p.some((val) => val < 0)) {
-        throw new Error(`Ternary point contains negative values: [${p}]`);
+      if (mode === 'strict') {
+        throw new Error(this.describeIssue(p, reason));
       }
+      issues.push({ index: i, reason, action: reason === 'not-closed' ? 'closed' : 'excluded' });
+    }
 
-      const sum = p[0] + p[1] + p[2];
-      if (Math.abs(sum - 1) > 1e-9) {
-        throw new Error(`Ternary point components must sum to 1, got ${sum}: [${p}]`);
-      }
+    if (mode === 'warn' && issues.length > 0) {
+      console.warn(`Found ${issues.length} invalid ternary point(s):`, issues);
+    }
+
+    return issues;
+  }
+
+  /**
+   * Find why a point is not a valid closed ternary point
+   *
+   * @param point - Ternary point to check
+   * @returns The reason why the point is invalid, or null if it is valid
+   */
+  static ternaryIssue(point: TernaryPoint): ValidationReason | null {
+    if (!Array.isArray(point) || point.length !== 3) {
+      return 'length';
+    }
+    if (!point.every((v) => typeof v === 'number' && Number.isFinite(v))) {
+      return 'nan';
+    }
+    if (point.some((v) => v < 0)) {
+      return 'negative';
+    }
+    const sum = point[0] + point[1] + point[2];
+    if (sum === 0) {
+      return 'zero-sum';
+    }
+    if (Math.abs(sum - 1) > 1e-9) {
+      return 'not-closed';
+    }
+    return null;
+  }
+
+  /**
+   * Describe why a point is invalid
+   *
+   * @param p - Invalid ternary point
+   * @param reason - Why the point is invalid
+   * @returns Error message
+   */
+  static describeIssue(p: TernaryPoint, reason: ValidationReason): string {
+    const values = Array.isArray(p) ? p.join(', ') : String(p);
+    switch (reason) {
+      case 'length':
+        return `Ternary point must have exactly 3 components, got ${Array.isArray(p) ? p.length : 0}`;
+      case 'nan':
+        return `Ternary point contains non-numeric values: [${values}]`;
+      case 'negative':
+        return `Ternary point contains negative values: [${values}]`;
+      case 'zero-sum':
+        return `Ternary point components sum to 0: [${values}]`;
+      case 'not-closed':
+        return `Ternary point components must sum to 1, got ${p[0] + p[1] + p[2]}: [${values}]`;
     }
   }
 
@@ -0,0 +1,98 @@
+import {
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  TricoloreFeatureProperties,
+  ColorizeGeoJSONOptions,
+  TernaryPoint,
+} from '../types';
+import { ColorMapping } from './colorMapping';
+import { CompositionUtils } from './compositionUtils';
+import { fitTricoloreOptions, fitSextantOptions } from './options';
+import { prepareCompositions } from './preprocessing';
+import { readCompositions } from './accessors';
+
+/**
+ * Color the features of a GeoJSON feature collection
+ *
+ * The compositions are read from the features with the p1, p2 and p3
+ * accessors, and the colors are added to the properties of the features
+ * (along with the closed composition, the mesh cell or sextant id, and
+ * whether the composition is valid), so that the result can be handed
+ * to any map library. The stored composition is the one read from the
+ * feature, closed: its zero parts are kept even when they were replaced
+ * to compute the color.
+ *
+ * @param featureCollection - GeoJSON feature collection
+ * @param options - Scheme, accessors and configuration options
+ * @returns New feature collection (the geometries are shared with the input)
+ *
+ * @throws Error - If validation is 'strict' and a feature has an invalid composition
+ */
+export function colorizeGeoJSON<P>(
+  featureCollection: GeoJSONFeatureCollection<P>,
+  options: ColorizeGeoJSONOptions<P>
+): GeoJSONFeatureCollection<P & TricoloreFeatureProperties> {
+  const { features } = featureCollection;
+  const data = readCompositions(features, options);
+  const { points, issues } = prepareCompositions(data, options);
+  const excluded = new Set(
+    issues.filter((issue) => issue.action === 'excluded').map((issue) => issue.index)
+  );
+  const closed = CompositionUtils.close(data);
+
+  // The compositions are prepared once, and mapped with the options fitted to them
+  let properties: Omit<TricoloreFeatureProperties, 'tricolore_valid'>[];
+  if (options.scheme === 'sextant') {
+    const { center, values } = fitSextantOptions(options, points);
+    properties = ColorMapping.colorMapSextant(points, center, values).map((r, i) => ({
+      ...closedComposition(excluded.has(i) ? null : closed[i]),
+      tricolore_rgb: r.rgb,
+      tricolore_sextant: r.sextant,
+    }));
+  } else {
+    const fitted = fitTricoloreOptions(options, points);
+    const results = ColorMapping.colorMapTricolore(
+      points,
+      fitted.center,
+      fitted.breaks,
+      fitted.hue,
+      fitted.chroma,
+      fitted.lightness,
+      fitted.contrast,
+      fitted.spread,
+      fitted.gamutMapping,
+      fitted.colorSpace
+    );
+    properties = results.map((r, i) => ({
+      ...closedComposition(excluded.has(i) ? null : closed[i]),
+      tricolore_rgb: r.rgb,
+      tricolore_cell: r.cell,
+    }));
+  }
+
+  return {
+    ...featureCollection,
+    features: features.map((feature, i): GeoJSONFeature<P & TricoloreFeatureProperties> => ({
+      ...feature,
+      properties: {
+        ...(feature.properties as P),
+        ...properties[i],
+        tricolore_valid: !excluded.has(i),
+      },
+    })),
+  };
+}
+
+/**
+ * Closed composition of a feature, as stored in its properties
+ * (before zero replacement, null for an invalid composition)
+ */
+function closedComposition(
+  point: TernaryPoint | null
+): Pick<TricoloreFeatureProperties, 'tricolore_p1' | 'tricolore_p2' | 'tricolore_p3'> {
+  return {
+    tricolore_p1: point ? point[0] : null,
+    tricolore_p2: point ? point[1] : null,
+    tricolore_p3: point ? point[2] : null,
+  };
+}
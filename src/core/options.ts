@@ -0,0 +1,188 @@
+import {
+  TernaryPoint,
+  TricoloreOptions,
+  SextantOptions,
+  ResolvedTricoloreOptions,
+  ResolvedSextantOptions,
+  FittedTricoloreOptions,
+  FittedSextantOptions,
+  RGBColor,
+  ZeroReplacement,
+} from '../types';
+import { CompositionUtils } from './compositionUtils';
+
+/**
+ * Default colors of the sextant scheme
+ */
+export const DEFAULT_SEXTANT_VALUES: RGBColor[] = [
+  '#FFFF00',
+  '#B3DCC3',
+  '#01A0C6',
+  '#B8B3D8',
+  '#F11D8C',
+  '#FFB3B3',
+];
+
+/**
+ * Fill in the defaults of the options of the balance scheme
+ *
+ * @param options - Configuration options
+ * @returns Configuration options with every value set
+ */
+export function resolveTricoloreOptions(options: TricoloreOptions = {}): ResolvedTricoloreOptions {
+  const {
+    center = [1 / 3, 1 / 3, 1 / 3],
+    breaks = 4,
+    hue = 80,
+    chroma = 140,
+    lightness = 80,
+    contrast = 0.4,
+    spread = 1,
+    gamutMapping = 'clip',
+    colorSpace = 'lch-ab',
+    zeroReplacement = 'none',
+    zeroDelta = 1e-3,
+    validation = 'skip',
+  } = options;
+
+  return {
+    center: center === 'mean' ? center : [...center],
+    breaks: breaks ?? Infinity,
+    hue,
+    chroma,
+    lightness,
+    contrast,
+    spread,
+    gamutMapping,
+    colorSpace,
+    zeroReplacement,
+    zeroDelta,
+    validation,
+  };
+}
+
+/**
+ * Fill in the defaults of the options of the sextant scheme
+ *
+ * @param options - Configuration options
+ * @returns Configuration options with every value set
+ */
+export function resolveSextantOptions(options: SextantOptions = {}): ResolvedSextantOptions {
+  const {
+    center = [1 / 3, 1 / 3, 1 / 3],
+    values = DEFAULT_SEXTANT_VALUES,
+    zeroReplacement = 'none',
+    zeroDelta = 1e-3,
+    validation = 'skip',
+  } = options;
+
+  return {
+    center: center === 'mean' ? center : [...center],
+    values: [...values],
+    zeroReplacement,
+    zeroDelta,
+    validation,
+  };
+}
+
+/**
+ * Fill in the defaults of the options of the balance scheme, and compute
+ * the center and the spread from the data when they are data-driven
+ *
+ * The 'mean' center is the compositional (geometric) mean of the data.
+ * The 'auto' spread is the power scaling factor that gives the centered
+ * data the total variance of compositions uniformly distributed over the
+ * ternary diagram (π²/3), so that they cover the whole color scale.
+ *
+ * @param options - Configuration options
+ * @param data - Array of ternary compositions
+ * @returns Configuration options with every value set
+ */
+export function fitTricoloreOptions(
+  options: TricoloreOptions,
+  data: TernaryPoint[]
+): FittedTricoloreOptions {
+  const resolved = resolveTricoloreOptions(options);
+
+  // The center of the balance scheme can't contain zeros
+  // (the data are centered by perturbation with its inverse)
+  const [center] = CompositionUtils.replaceZeros(
+    [fitCenter(resolved.center, data, resolved.zeroReplacement, resolved.zeroDelta)],
+    resolved.zeroReplacement,
+    resolved.zeroDelta
+  );
+
+  return {
+    ...resolved,
+    center: center ?? [1 / 3, 1 / 3, 1 / 3],
+    spread: resolved.spread === 'auto' ? fitSpread(data) : resolved.spread,
+  };
+}
+
+/**
+ * Fill in the defaults of the options of the sextant scheme, and compute
+ * the center from the data when it is data-driven
+ *
+ * @param options - Configuration options
+ * @param data - Array of ternary compositions
+ * @returns Configuration options with every value set
+ */
+export function fitSextantOptions(
+  options: SextantOptions,
+  data: TernaryPoint[]
+): FittedSextantOptions {
+  const resolved = resolveSextantOptions(options);
+
+  return {
+    ...resolved,
+    center: fitCenter(resolved.center, data, resolved.zeroReplacement, resolved.zeroDelta),
+  };
+}
+
+/**
+ * Close the valid compositions of a dataset, dropping the invalid ones
+ */
+function validCompositions(data: TernaryPoint[]): TernaryPoint[] {
+  return CompositionUtils.close(data).filter((p): p is TernaryPoint => p !== null);
+}
+
+/**
+ * Compute the compositional mean of the data if requested,
+ * falling back to the barycenter if there is no valid composition
+ *
+ * The geometric mean is not defined for zero parts: they are replaced
+ * before computing it, multiplicatively if no replacement is set.
+ */
+function fitCenter(
+  center: TernaryPoint | 'mean',
+  data: TernaryPoint[],
+  zeroReplacement: ZeroReplacement,
+  zeroDelta: number
+): TernaryPoint {
+  if (center !== 'mean') {
+    return center;
+  }
+
+  const valid = validCompositions(data);
+  if (valid.length === 0) {
+    return [1 / 3, 1 / 3, 1 / 3];
+  }
+  const replaced = CompositionUtils.replaceZeros(
+    valid,
+    zeroReplacement === 'none' ? 'multiplicative' : zeroReplacement,
+    zeroDelta
+  );
+  return CompositionUtils.centre(replaced as TernaryPoint[]);
+}
+
+/**
+ * Compute the power scaling factor giving the data the total variance of
+ * uniformly distributed compositions, falling back to 1 for constant data
+ */
+function fitSpread(data: TernaryPoint[]): number {
+  const variance = CompositionUtils.totalVariance(validCompositions(data));
+  if (!(variance > 0) || !Number.isFinite(variance)) {
+    return 1;
+  }
+  return Math.PI / Math.sqrt(3 * variance);
+}
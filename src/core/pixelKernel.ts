@@ -0,0 +1,196 @@
+import { ColorSpace, GamutMapping, TernaryPoint } from '../types';
+import type { TernaryColumnsView } from './colorBuffer';
+
+/**
+ * Parameters of the balance scheme used by the pixel kernel
+ */
+export interface PixelKernelParams {
+  center: TernaryPoint;
+  /** Number of rows of the mesh of a discrete scale (Infinity for a continuous scale) */
+  breaks: number;
+  /** Centroids of the mesh cells (p1, p2, p3, p1, ...), ordered by id */
+  centroids: Float64Array | null;
+  hue: number;
+  chroma: number;
+  lightness: number;
+  contrast: number;
+  spread: number;
+  gamutMapping: GamutMapping;
+  colorSpace: ColorSpace;
+}
+
+/**
+ * Map ternary compositions to RGBA pixels using balance scheme
+ *
+ * This is the computation of ColorMapping.colorMapTricolore, written
+ * with numbers only (invalid compositions are written as transparent black).
+ *
+ * The function must not reference anything defined outside of its body
+ * (including imports): its source is sent to web workers to render legends
+ * off the main thread. The color conversions mirror those of ColorConversion
+ * (tests/pixelKernel.test.ts checks that both give the same colors).
+ *
+ * @param input - Compositions to map
+ * @param output - RGBA bytes receiving the colors (4 values per composition)
+ * @param params - Parameters of the balance scheme
+ */
+export function tricolorePixels(
+  input: TernaryColumnsView,
+  output: Uint8ClampedArray,
+  params: PixelKernelParams
+): void {
+  const { center, breaks, centroids, hue, chroma, lightness, contrast, spread } = params;
+  const { gamutMapping, colorSpace } = params;
+  const { parts, stride, offset, length } = input;
+
+  // D65 illuminant and white point chromaticity
+  const X_N = 0.95047;
+  const Y_N = 1.0;
+  const Z_N = 1.08883;
+  const U_N = (4 * X_N) / (X_N + 15 * Y_N + 3 * Z_N);
+  const V_N = (9 * Y_N) / (X_N + 15 * Y_N + 3 * Z_N);
+  const OKLCH_CHROMA_FACTOR = 0.4 / 150;
+
+  const gamma = (v: number) => (v > 0.0031308 ? 1.055 * v ** (1 / 2.4) - 0.055 : 12.92 * v);
+
+  // Convert LCh color to sRGB (without clamping) into rgb
+  const rgb = [0, 0, 0];
+  const lchToSrgb = (h: number, c: number, l: number) => {
+    const hRad = (h * Math.PI) / 180;
+    const cosH = Math.cos(hRad);
+    const sinH = Math.sin(hRad);
+    const u = c * cosH;
+    const v = c * sinH;
+
+    let r: number;
+    let g: number;
+    let b: number;
+    if (colorSpace === 'oklch') {
+      const L = l / 100;
+      const A = c * OKLCH_CHROMA_FACTOR * cosH;
+      const B = c * OKLCH_CHROMA_FACTOR * sinH;
+      const lms1 = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+      const lms2 = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+      const lms3 = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+      r = 4.0767416621 * lms1 - 3.3077115913 * lms2 + 0.2309699292 * lms3;
+      g = -1.2684380046 * lms1 + 2.6097574011 * lms2 - 0.3413193965 * lms3;
+      b = -0.0041960863 * lms1 - 0.7034186147 * lms2 + 1.707614701 * lms3;
+    } else {
+      let X: number;
+      let Y: number;
+      let Z: number;
+      if (colorSpace === 'lch-uv') {
+        if (l <= 0) {
+          X = Y = Z = 0;
+        } else {
+          Y = Y_N * (l > 8 ? ((l + 16) / 116) ** 3 : (l * 27) / 24389);
+          const up = u / (13 * l) + U_N;
+          const vp = v / (13 * l) + V_N;
+          X = (Y * 9 * up) / (4 * vp);
+          Z = (Y * (12 - 3 * up - 20 * vp)) / (4 * vp);
+        }
+      } else {
+        const y = (l + 16) / 116;
+        const x = u / 500 + y;
+        const z = y - v / 200;
+        X = X_N * (x > 0.206893034 ? x ** 3 : (x - 16 / 116) / 7.787);
+        Y = Y_N * (y > 0.206893034 ? y ** 3 : (y - 16 / 116) / 7.787);
+        Z = Z_N * (z > 0.206893034 ? z ** 3 : (z - 16 / 116) / 7.787);
+      }
+      r = 3.2406 * X - 1.5372 * Y - 0.4986 * Z;
+      g = -0.9689 * X + 1.8758 * Y + 0.0415 * Z;
+      b = 0.0557 * X - 0.204 * Y + 1.057 * Z;
+    }
+
+    rgb[0] = gamma(r);
+    rgb[1] = gamma(g);
+    rgb[2] = gamma(b);
+  };
+
+  const tolerance = 0.5 / 255;
+  const inGamut = () => rgb.every((v) => v >= -tolerance && v <= 1 + tolerance);
+
+  // Constants shared by all compositions
+  const discrete = centroids !== null && Number.isFinite(breaks) && breaks < 100;
+  const inverse = [1 / center[0], 1 / center[1], 1 / center[2]];
+  const phi = [hue, hue + 120, hue + 240].map((h) => (h * Math.PI) / 180);
+  const cos = phi.map(Math.cos);
+  const sin = phi.map(Math.sin);
+
+  for (let i = 0; i < length; i++) {
+    let p1 = parts[0][i * stride];
+    let p2 = parts[1][i * stride + offset];
+    let p3 = parts[2][i * stride + 2 * offset];
+
+    // Invalid compositions (NaN or negative parts, zero or infinite sum)
+    let sum = p1 + p2 + p3;
+    if (!(p1 >= 0 && p2 >= 0 && p3 >= 0) || !(sum > 0) || !Number.isFinite(sum)) {
+      output[4 * i] = output[4 * i + 1] = output[4 * i + 2] = output[4 * i + 3] = 0;
+      continue;
+    }
+
+    // Close, and discretize if requested
+    // (see TernaryGeometry.ternaryMeshCell for the numbering of the cells)
+    p1 /= sum;
+    p2 /= sum;
+    p3 /= sum;
+    if (discrete) {
+      const b = breaks * p2;
+      const c = breaks * p3;
+      const row = Math.min(Math.max(Math.floor(b), 0), breaks - 1);
+      const col = Math.min(Math.max(Math.floor(c), 0), breaks - 1 - row);
+      const inverted = col < breaks - 1 - row && b - row + (c - col) > 1;
+      const cell = row * (2 * breaks - row) + 2 * col + (inverted ? 1 : 0);
+      p1 = centroids[3 * cell];
+      p2 = centroids[3 * cell + 1];
+      p3 = centroids[3 * cell + 2];
+    }
+
+    // Center and scale
+    p1 *= inverse[0];
+    p2 *= inverse[1];
+    p3 *= inverse[2];
+    sum = p1 + p2 + p3;
+    p1 = Math.pow(p1 / sum, spread);
+    p2 = Math.pow(p2 / sum, spread);
+    p3 = Math.pow(p3 / sum, spread);
+    sum = p1 + p2 + p3;
+
+    // Sum the primary colors weighted by the scaled proportions
+    const k = chroma / sum;
+    const re = k * (p1 * cos[0] + p2 * cos[1] + p3 * cos[2]);
+    const im = k * (p1 * sin[0] + p2 * sin[1] + p3 * sin[2]);
+    let h = ((Math.atan2(im, re) * 180) / Math.PI + 360) % 360;
+    const c = Math.sqrt(re * re + im * im);
+
+    // Adjust lightness and chroma based on contrast,
+    // then normalize them as ColorMapping.hclToSrgb does
+    const cfactor = (c * contrast) / chroma + 1 - contrast;
+    h = h % 360;
+    if (h < 0) h += 360;
+    const C = Math.max(0, Math.min(cfactor * c, 230));
+    const L = Math.max(0, Math.min(cfactor * lightness, 100));
+
+    lchToSrgb(h, C, L);
+    if (gamutMapping === 'chroma' && !inGamut()) {
+      // Bisect on chroma, keeping hue and lightness, until the color fits
+      let lo = 0;
+      let hi = C;
+      for (let j = 0; j < 24; j++) {
+        const mid = (lo + hi) / 2;
+        lchToSrgb(h, mid, L);
+        if (inGamut()) {
+          lo = mid;
+        } else {
+          hi = mid;
+        }
+      }
+      lchToSrgb(h, lo, L);
+    }
+
+    output[4 * i] = Math.round(Math.max(0, Math.min(1, rgb[0])) * 255);
+    output[4 * i + 1] = Math.round(Math.max(0, Math.min(1, rgb[1])) * 255);
+    output[4 * i + 2] = Math.round(Math.max(0, Math.min(1, rgb[2])) * 255);
+    output[4 * i + 3] = 255;
+  }
+}
@@ -0,0 +1,65 @@
+import { TernaryPoint, PreprocessingOptions, ValidationIssue } from '../types';
+import { CompositionUtils } from './compositionUtils';
+
+/**
+ * Compositions prepared for color mapping
+ */
+export interface PreparedCompositions {
+  /** Compositions, with their zeros replaced if requested */
+  points: TernaryPoint[];
+  /** Indices of the compositions whose zeros were replaced */
+  replaced: number[];
+  /** Invalid compositions found in the data */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Prepare compositions for color mapping: validate them, and replace their
+ * zero parts if requested (invalid compositions are left untouched, they are
+ * mapped to null colors later on)
+ *
+ * @param data - Array of ternary compositions
+ * @param options - Preprocessing options
+ * @returns Prepared compositions
+ *
+ * @throws Error - If validation is 'strict' and data contains invalid compositions
+ */
+export function prepareCompositions(
+  data: TernaryPoint[],
+  options: PreprocessingOptions = {}
+): PreparedCompositions {
+  const { zeroReplacement = 'none', zeroDelta = 1e-3, validation = 'skip' } = options;
+  const replaced: number[] = [];
+
+  // Compositions that are not closed are fine, they get closed before use:
+  // only the ones that are excluded raise errors or warnings
+  const issues = CompositionUtils.validateTernaryPoints(data, 'skip');
+  const excluded = issues.filter((issue) => issue.action === 'excluded');
+  if (excluded.length > 0) {
+    const { index, reason } = excluded[0];
+    if (validation === 'strict') {
+      throw new Error(
+        `Invalid ternary point at index ${index}: ${CompositionUtils.describeIssue(data[index], reason)}`
+      );
+    }
+    if (validation === 'warn') {
+      console.warn(`Excluded ${excluded.length} invalid ternary point(s):`, excluded);
+    }
+  }
+
+  if (zeroReplacement === 'none') {
+    return { points: data, replaced, issues };
+  }
+
+  const substitutes = CompositionUtils.replaceZeros(data, zeroReplacement, zeroDelta);
+  const points = data.map((p, i) => {
+    const substitute = substitutes[i];
+    if (!substitute || !CompositionUtils.hasZeros(p)) {
+      return p;
+    }
+    replaced.push(i);
+    return substitute;
+  });
+
+  return { points, replaced, issues };
+}
@@ -0,0 +1,227 @@
+import { DensityBin, DensityGrid, TernaryPoint } from '../types';
+import { CompositionUtils } from './compositionUtils';
+import { TernaryGeometry } from './ternaryGeometry';
+
+/**
+ * Density of ternary points, binned into the cells of a ternary mesh
+ * or into hexagons, and its contour lines
+ */
+export class TernaryDensity {
+  /**
+   * Bin ternary points into the cells of a segmented triangle
+   *
+   * The density is sampled at the vertices of the mesh (mean of the
+   * cells around them), and interpolated on the cells for contouring.
+   *
+   * @param P - Array of ternary points (invalid points are skipped)
+   * @param k - Number of rows of the segmented triangle
+   * @param weights - Weight of each point (default: 1; points without a
+   *  positive weight are skipped)
+   * @returns Density of the points, with a bin for each cell (ordered by id)
+   */
+  static meshDensity(P: TernaryPoint[], k: number, weights?: number[]): DensityGrid {
+    const centroids = TernaryGeometry.ternaryMeshCentroids(k);
+    const vertices = TernaryGeometry.ternaryMeshVertices(centroids);
+
+    const bins: DensityBin[] = centroids.map((c, i) => ({
+      vertices: vertices.slice(3 * i, 3 * i + 3).map((v) => [v.p1, v.p2, v.p3] as TernaryPoint),
+      center: [c.p1, c.p2, c.p3],
+      value: 0,
+    }));
+    this.weightedPoints(P, weights).forEach(([p, w]) => {
+      bins[TernaryGeometry.ternaryMeshCell(p, k) - 1].value += w;
+    });
+
+    // Vertices are shared by up to 6 cells: index them by their position on the lattice
+    const lattice = new Map<number, number>();
+    const samples: DensityGrid['samples'] = [];
+    const cells: number[] = [];
+    const triangles = bins.map(
+      (bin) =>
+        bin.vertices.map((v) => {
+          const key = Math.round(v[1] * k) * (k + 1) + Math.round(v[2] * k);
+          let j = lattice.get(key);
+          if (j === undefined) {
+            j = samples.length;
+            lattice.set(key, j);
+            samples.push({ point: v, value: 0 });
+            cells.push(0);
+          }
+          samples[j].value += bin.value;
+          cells[j]++;
+          return j;
+        }) as [number, number, number]
+    );
+    samples.forEach((sample, j) => (sample.value /= cells[j]));
+
+    return { bins, samples, triangles };
+  }
+
+  /**
+   * Bin ternary points into a grid of regular hexagons (pointing up, with
+   * the centers of the first row on the base of the triangle)
+   *
+   * The density is sampled at the centers of the hexagons, and interpolated
+   * on the triangles joining the centers of adjacent hexagons for contouring.
+   *
+   * @param P - Array of ternary points (invalid points are skipped)
+   * @param n - Number of hexagons along the base of the triangle
+   * @param weights - Weight of each point (default: 1; points without a
+   *  positive weight are skipped)
+   * @returns Density of the points, with a bin for each hexagon overlapping
+   *  the triangle (clipped to the triangle)
+   */
+  static hexagonDensity(P: TernaryPoint[], n: number, weights?: number[]): DensityGrid {
+    // Radius of the hexagons, and Cartesian coordinates of the center of
+    // the hexagon in column q and row r (axial coordinates)
+    const radius = 1 / (n * Math.sqrt(3));
+    const center = (q: number, r: number): [number, number] => [
+      Math.sqrt(3) * radius * (q + r / 2),
+      1.5 * radius * r,
+    ];
+
+    const index = new Map<string, number>();
+    const bins: DensityBin[] = [];
+    const rows = Math.ceil(Math.sqrt(3) / 2 / (1.5 * radius));
+    for (let r = 0; r <= rows; r++) {
+      for (let q = -Math.ceil(r / 2) - 1; q <= n - Math.floor(r / 2); q++) {
+        const [x, y] = center(q, r);
+        const hexagon = [0, 1, 2, 3, 4, 5].map((j) => {
+          const angle = Math.PI / 6 + (j * Math.PI) / 3;
+          return TernaryGeometry.cartesianToTernary(
+            x + radius * Math.cos(angle),
+            y + radius * Math.sin(angle)
+          );
+        });
+        const vertices = TernaryGeometry.ternaryClip(hexagon, [0, 0, 0], [1, 1, 1]);
+        if (this.area(vertices) > 1e-12) {
+          index.set(`${q},${r}`, bins.length);
+          bins.push({ vertices, center: TernaryGeometry.cartesianToTernary(x, y), value: 0 });
+        }
+      }
+    }
+
+    this.weightedPoints(P, weights).forEach(([p, w]) => {
+      const [x, y] = TernaryGeometry.ternaryToCartesian(p);
+      const [q, r] = this.hexagonRound(
+        ((Math.sqrt(3) / 3) * x - y / 3) / radius,
+        ((2 / 3) * y) / radius
+      );
+      const i = index.get(`${q},${r}`);
+      if (i !== undefined) bins[i].value += w;
+    });
+
+    // Adjacent hexagons form two triangles with each hexagon
+    const triangles: [number, number, number][] = [];
+    index.forEach((i, key) => {
+      const [q, r] = key.split(',').map(Number);
+      [
+        [`${q + 1},${r}`, `${q},${r + 1}`],
+        [`${q + 1},${r - 1}`, `${q + 1},${r}`],
+      ].forEach(([a, b]) => {
+        const j = index.get(a);
+        const l = index.get(b);
+        if (j !== undefined && l !== undefined) triangles.push([i, j, l]);
+      });
+    });
+
+    const samples = bins.map((bin) => ({ point: bin.center, value: bin.value }));
+    return { bins, samples, triangles };
+  }
+
+  /**
+   * Contour line of a density at a level, interpolated linearly on the
+   * triangles joining its samples (marching triangles)
+   *
+   * @param grid - Density of ternary points
+   * @param level - Value of the density on the line
+   * @returns Segments of the contour line (clipped to the triangle)
+   */
+  static densityContour(grid: DensityGrid, level: number): [TernaryPoint, TernaryPoint][] {
+    const { samples, triangles } = grid;
+    const segments: [TernaryPoint, TernaryPoint][] = [];
+
+    triangles.forEach((triangle) => {
+      // Points where the edges of the triangle cross the level (none or two)
+      const crossings: TernaryPoint[] = [];
+      triangle.forEach((a, i) => {
+        const b = triangle[(i + 1) % 3];
+        const va = samples[a].value - level;
+        const vb = samples[b].value - level;
+        if (va >= 0 !== vb >= 0) {
+          const t = va / (va - vb);
+          const [pa, pb] = [samples[a].point, samples[b].point];
+          crossings.push([0, 1, 2].map((j) => pa[j] + t * (pb[j] - pa[j])) as TernaryPoint);
+        }
+      });
+
+      if (crossings.length === 2) {
+        const segment = this.clipSegment(crossings[0], crossings[1]);
+        if (segment) segments.push(segment);
+      }
+    });
+
+    return segments;
+  }
+
+  /**
+   * Valid points, closed, with their weight
+   */
+  private static weightedPoints(P: TernaryPoint[], weights?: number[]): [TernaryPoint, number][] {
+    const closed = CompositionUtils.close([...P]);
+    const points: [TernaryPoint, number][] = [];
+    closed.forEach((p, i) => {
+      const w = weights ? weights[i] : 1;
+      if (p && w > 0 && w < Infinity) points.push([p, w]);
+    });
+    return points;
+  }
+
+  /**
+   * Axial coordinates of the hexagon holding fractional axial coordinates
+   */
+  private static hexagonRound(q: number, r: number): [number, number] {
+    const s = -q - r;
+    let rq = Math.round(q);
+    let rr = Math.round(r);
+    const rs = Math.round(s);
+    const dq = Math.abs(rq - q);
+    const dr = Math.abs(rr - r);
+    const ds = Math.abs(rs - s);
+    if (dq > dr && dq > ds) rq = -rr - rs;
+    else if (dr > ds) rr = -rq - rs;
+    return [rq, rr];
+  }
+
+  /**
+   * Area of a polygon, as a share of the area of the triangle
+   */
+  private static area(polygon: TernaryPoint[]): number {
+    let area = 0;
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      area += a[1] * b[2] - b[1] * a[2];
+    });
+    return Math.abs(area);
+  }
+
+  /**
+   * Clip a segment to the triangle (null if it is outside of the triangle)
+   */
+  private static clipSegment(
+    a: TernaryPoint,
+    b: TernaryPoint
+  ): [TernaryPoint, TernaryPoint] | null {
+    let t0 = 0;
+    let t1 = 1;
+    for (let i = 0; i < 3; i++) {
+      if (a[i] < 0 && b[i] < 0) return null;
+      if (a[i] < 0) t0 = Math.max(t0, a[i] / (a[i] - b[i]));
+      else if (b[i] < 0) t1 = Math.min(t1, a[i] / (a[i] - b[i]));
+    }
+    if (t0 >= t1) return null;
+
+    const at = (t: number) => [0, 1, 2].map((j) => a[j] + t * (b[j] - a[j])) as TernaryPoint;
+    return [at(t0), at(t1)];
+  }
+}
@@ -99,12 +99,57 @@ export class TernaryGeometry {
   static ternaryNearest(P: (TernaryPoint | null)[], C: TernaryPoint[]): (TernaryPoint | null)[] {
     return P.map((p) => {
       if (!p) return null;
+      // Look for the minimum with a loop, as spreading the distances
+      // in Math.min overflows the call stack for large sets
       const distances = this.ternaryDistance(p, C);
-      const minIndex = distances.indexOf(Math.min(...distances));
+      let minIndex = 0;
+      for (let i = 1; i < distances.length; i++) {
+        if (distances[i] < distances[minIndex]) minIndex = i;
+      }
       return C[minIndex];
     });
   }
 
+  /**
+   * Find the id of the sub-triangle of a segmented equilateral triangle
+   * containing a point, in constant time
+   *
+   * Sub-triangles are numbered as in ternaryMeshCentroids: by rows of
+   * increasing p2, then by increasing p3 within a row. Points lying on
+   * an edge belong to the sub-triangle with the larger p2, then with the
+   * larger p3; points on the edge between two sub-triangles of the same
+   * row and column belong to the one pointing towards p1.
+   *
+   * @param p - Closed ternary point
+   * @param k - Number of rows in the segmented equilateral triangle
+   * @returns Id of the sub-triangle containing the point
+   */
+  static ternaryMeshCell(p: TernaryPoint, k: number): number {
+    const b = k * p[1];
+    const c = k * p[2];
+    // Row (along p2) and column (along p3) of the sub-triangle,
+    // clamped so that the outer edges belong to the mesh
+    const row = Math.min(Math.max(Math.floor(b), 0), k - 1);
+    const col = Math.min(Math.max(Math.floor(c), 0), k - 1 - row);
+    // Each column of a row holds a triangle pointing towards p1 and,
+    // except for the last one, an inverted triangle next to it
+    const inverted = col < k - 1 - row && b - row + (c - col) > 1;
+    return 1 + row * (2 * k - row) + 2 * col + (inverted ? 1 : 0);
+  }
+
+  /**
+   * Find the sub-triangle of a segmented equilateral triangle containing
+   * each point in P
+   *
+   * @param P - Array of closed ternary points
+   * @param k - Number of rows in the segmented equilateral triangle
+   * @returns Array of centroids of the sub-triangles (null for missing points)
+   */
+  static ternaryMeshCells(P: (TernaryPoint | null)[], k: number): (TernaryCentroid | null)[] {
+    const centroids = this.ternaryMeshCentroids(k);
+    return P.map((p) => (p ? centroids[this.ternaryMeshCell(p, k) - 1] : null));
+  }
+
   /**
    * Calculate vertices of sextant regions
    *
@@ -212,6 +257,45 @@ export class TernaryGeometry {
     return [p1, p2, p3];
   }
 
+  /**
+   * Clip a polygon to the region where each part is within bounds
+   * (Sutherland-Hodgman algorithm)
+   *
+   * @param polygon - Vertices of the polygon
+   * @param lower - Lower bound of each part
+   * @param upper - Upper bound of each part
+   * @returns Vertices of the clipped polygon (empty if it is outside of the region)
+   */
+  static ternaryClip(
+    polygon: TernaryPoint[],
+    lower: TernaryPoint,
+    upper: TernaryPoint
+  ): TernaryPoint[] {
+    let clipped = polygon;
+
+    // Keep the side of each bound where f(p) >= 0
+    const bounds = [0, 1, 2].flatMap((i) => [
+      (p: TernaryPoint) => p[i] - lower[i],
+      (p: TernaryPoint) => upper[i] - p[i],
+    ]);
+    bounds.forEach((f) => {
+      const input = clipped;
+      clipped = [];
+      input.forEach((a, i) => {
+        const b = input[(i + 1) % input.length];
+        const fa = f(a);
+        const fb = f(b);
+        if (fa >= 0) clipped.push(a);
+        if (fa >= 0 !== fb >= 0) {
+          const t = fa / (fa - fb);
+          clipped.push([0, 1, 2].map((j) => a[j] + t * (b[j] - a[j])) as TernaryPoint);
+        }
+      });
+    });
+
+    return clipped;
+  }
+
   /**
    * Calculate ternary limits (min/max for each component)
    *
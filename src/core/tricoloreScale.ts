@@ -0,0 +1,501 @@
+import {
+  TernaryPoint,
+  RGBColor,
+  TricoloreOptions,
+  SextantOptions,
+  ResolvedTricoloreOptions,
+  ResolvedSextantOptions,
+  FittedTricoloreOptions,
+  FittedSextantOptions,
+  TricoloreResult,
+  SextantResult,
+  TricoloreInversion,
+  LegendCell,
+  TricoloreScaleJSON,
+  SextantScaleJSON,
+  TernaryBuffer,
+  ColorBuffer,
+} from '../types';
+import { ColorMapping } from './colorMapping';
+import { TernaryGeometry } from './ternaryGeometry';
+import {
+  resolveTricoloreOptions,
+  resolveSextantOptions,
+  fitTricoloreOptions,
+  fitSextantOptions,
+} from './options';
+import { prepareCompositions } from './preprocessing';
+
+/**
+ * Parse the JSON representation of a scale, given as a string or an object
+ */
+function parseScaleJSON<T extends { scheme: string }>(json: T | string, scheme: T['scheme']): T {
+  const parsed = (typeof json === 'string' ? JSON.parse(json) : json) as T;
+  if (!parsed || parsed.scheme !== scheme) {
+    throw new Error(`Expected a scale definition with scheme '${scheme}'`);
+  }
+  return parsed;
+}
+
+/**
+ * Error thrown when a scale with data-driven options is used without data
+ */
+function notFittedError(): Error {
+  return new Error(
+    "The scale has a data-driven center or spread ('mean' or 'auto'): call fit(data) first"
+  );
+}
+
+/**
+ * Make a callable scale: a function forwarding to `color`
+ * whose prototype is the one of the scale class
+ */
+function callable<S extends { color(point: TernaryPoint): RGBColor | null }>(prototype: S): S {
+  const scale = ((point: TernaryPoint) => scale.color(point)) as unknown as S;
+  Object.setPrototypeOf(scale, prototype);
+  return scale;
+}
+
+// The call signature of the scales is declared by merging an interface
+// into the class, as the constructor returns a function.
+/* eslint-disable @typescript-eslint/no-unsafe-declaration-merging */
+
+export interface TricoloreScale {
+  /**
+   * Color of a ternary composition
+   *
+   * @param point - Ternary composition
+   * @returns Hex color code (or null for an invalid composition)
+   */
+  (point: TernaryPoint): RGBColor | null;
+}
+
+/**
+ * Reusable balance scheme color scale, holding its configuration
+ *
+ * The scale is callable: `scale(point)` returns the color of a composition.
+ *
+ * A data-driven center ('mean') or spread ('auto') is computed from the data
+ * given to `results` and `colors`, or once and for all by calling `fit`.
+ */
+export class TricoloreScale {
+  private settings!: ResolvedTricoloreOptions;
+
+  /**
+   * Create a TricoloreScale instance
+   *
+   * @param options - Configuration options
+   */
+  constructor(options: TricoloreOptions = {}) {
+    const scale = callable<TricoloreScale>(new.target.prototype);
+    scale.settings = resolveTricoloreOptions(options);
+    return scale;
+  }
+
+  /**
+   * Create a scale from its JSON representation
+   *
+   * @param json - JSON representation, as a string or as an object
+   * @returns The scale
+   *
+   * @throws Error - If the JSON does not describe a balance scheme scale
+   */
+  static fromJSON(json: TricoloreScaleJSON | string): TricoloreScale {
+    const options = parseScaleJSON(json, 'balance');
+    return new TricoloreScale({ ...options, breaks: options.breaks ?? Infinity });
+  }
+
+  /**
+   * Color of a ternary composition
+   *
+   * @param point - Ternary composition
+   * @returns Hex color code (or null for an invalid composition)
+   */
+  color(point: TernaryPoint): RGBColor | null {
+    const { points } = prepareCompositions([point], this.settings);
+    return this.map(points, this.fitted())[0].rgb;
+  }
+
+  /**
+   * Colors of a set of ternary compositions
+   *
+   * @param data - Array of ternary compositions
+   * @returns Array of hex color codes
+   */
+  colors(data: TernaryPoint[]): (RGBColor | null)[] {
+    return this.results(data).map((result) => result.rgb);
+  }
+
+  /**
+   * Colors of a set of ternary compositions, with full result information
+   *
+   * @param data - Array of ternary compositions
+   * @returns Array of detailed color results
+   */
+  results(data: TernaryPoint[]): TricoloreResult[] {
+    const { points } = prepareCompositions(data, this.settings);
+    return this.map(points, fitTricoloreOptions(this.settings, points));
+  }
+
+  /**
+   * Colors of a set of ternary compositions stored in typed arrays,
+   * written in a buffer (see ColorMapping.colorMapTricoloreBuffer)
+   *
+   * Zero replacement and validation are not applied: invalid compositions
+   * are written as transparent black.
+   *
+   * @param input - Three columns (p1, p2, p3), or one interleaved array
+   * @param output - Buffer receiving the colors, as RGBA bytes or packed colors
+   *  (a new RGBA buffer is created if not given)
+   * @returns The buffer of colors
+   */
+  colorBuffer(input: TernaryBuffer, output?: ColorBuffer): ColorBuffer {
+    const s = this.fitted();
+    return ColorMapping.colorMapTricoloreBuffer(
+      input,
+      s.center,
+      s.breaks,
+      s.hue,
+      s.chroma,
+      s.lightness,
+      s.contrast,
+      s.spread,
+      s.gamutMapping,
+      s.colorSpace,
+      output
+    );
+  }
+
+  /**
+   * Compute the data-driven center and spread of the scale from a dataset
+   *
+   * @param data - Array of ternary compositions
+   * @returns The scale
+   */
+  fit(data: TernaryPoint[]): this {
+    const { points } = prepareCompositions(data, this.settings);
+    this.settings = fitTricoloreOptions(this.settings, points);
+    return this;
+  }
+
+  /**
+   * Recover the ternary composition encoded by a color
+   *
+   * @param color - Hex color code
+   * @param tolerance - Maximum difference allowed on each 8-bit RGB channel
+   * @returns The composition (and mesh cell id for a discrete scale),
+   *  or null if the color is not on the scale
+   */
+  invert(color: RGBColor, tolerance: number = 2): TricoloreInversion | null {
+    const s = this.fitted();
+    return ColorMapping.invertTricolore(
+      color,
+      s.center,
+      s.breaks,
+      s.hue,
+      s.chroma,
+      s.lightness,
+      s.contrast,
+      s.spread,
+      s.gamutMapping,
+      s.colorSpace,
+      tolerance
+    );
+  }
+
+  /**
+   * Get the configuration of the scale
+   *
+   * @returns A copy of the configuration options, with every value set
+   */
+  options(): ResolvedTricoloreOptions;
+  /**
+   * Update the configuration of the scale
+   *
+   * @param options - Configuration options to change
+   * @returns The scale
+   */
+  options(options: TricoloreOptions): this;
+  options(options?: TricoloreOptions): ResolvedTricoloreOptions | this {
+    if (options === undefined) {
+      return resolveTricoloreOptions(this.settings);
+    }
+    this.settings = resolveTricoloreOptions({ ...this.settings, ...options });
+    return this;
+  }
+
+  /**
+   * Create an independent copy of the scale
+   *
+   * @returns The copy
+   */
+  copy(): TricoloreScale {
+    return new TricoloreScale(this.settings);
+  }
+
+  /**
+   * Polygons and colors to draw a legend of the scale
+   *
+   * @param resolution - Number of rows of the mesh used to approximate
+   *  a continuous scale (discrete scales use their number of breaks)
+   * @returns Array of legend cells
+   */
+  legendData(resolution: number = 50): LegendCell[] {
+    const settings = this.fitted();
+    const { breaks } = settings;
+    const k = Number.isFinite(breaks) && breaks < 100 ? breaks : resolution;
+    const centroids = TernaryGeometry.ternaryMeshCentroids(k);
+    const vertices = TernaryGeometry.ternaryMeshVertices(centroids);
+    const colors = this.map(
+      centroids.map((c) => [c.p1, c.p2, c.p3]),
+      settings
+    );
+
+    return centroids.map((c, i) => ({
+      id: c.id,
+      vertices: vertices.slice(3 * i, 3 * i + 3).map((v) => [v.p1, v.p2, v.p3] as TernaryPoint),
+      rgb: colors[i].rgb,
+    }));
+  }
+
+  /**
+   * JSON representation of the scale (Infinity breaks are stored as null)
+   *
+   * @returns JSON representation
+   */
+  toJSON(): TricoloreScaleJSON {
+    const { breaks, ...options } = this.options();
+    return {
+      scheme: 'balance',
+      ...options,
+      breaks: Number.isFinite(breaks) ? breaks : null,
+    };
+  }
+
+  /**
+   * Options of the scale, which must not be data-driven anymore (the zeros
+   * of the center are replaced as in results)
+   */
+  private fitted(): FittedTricoloreOptions {
+    const { center, spread } = this.settings;
+    if (center === 'mean' || spread === 'auto') {
+      throw notFittedError();
+    }
+    return fitTricoloreOptions(this.settings, []);
+  }
+
+  /**
+   * Map ternary compositions to colors with the given options
+   */
+  private map(data: TernaryPoint[], s: FittedTricoloreOptions): TricoloreResult[] {
+    return ColorMapping.colorMapTricolore(
+      data,
+      s.center,
+      s.breaks,
+      s.hue,
+      s.chroma,
+      s.lightness,
+      s.contrast,
+      s.spread,
+      s.gamutMapping,
+      s.colorSpace
+    );
+  }
+}
+
+export interface SextantScale {
+  /**
+   * Color of a ternary composition
+   *
+   * @param point - Ternary composition
+   * @returns Hex color code (or null for an invalid composition or the center)
+   */
+  (point: TernaryPoint): RGBColor | null;
+}
+
+/**
+ * Reusable sextant scheme color scale, holding its configuration
+ *
+ * The scale is callable: `scale(point)` returns the color of a composition.
+ *
+ * A data-driven center ('mean') is computed from the data given
+ * to `results` and `colors`, or once and for all by calling `fit`.
+ */
+export class SextantScale {
+  private settings!: ResolvedSextantOptions;
+
+  /**
+   * Create a SextantScale instance
+   *
+   * @param options - Configuration options
+   *
+   * @throws Error - If values does not contain exactly 6 colors
+   */
+  constructor(options: SextantOptions = {}) {
+    const scale = callable<SextantScale>(new.target.prototype);
+    scale.settings = resolveSextantOptions(options);
+    if (scale.settings.values.length !== 6) {
+      throw new Error('Sextant values array must have exactly 6 elements');
+    }
+    return scale;
+  }
+
+  /**
+   * Create a scale from its JSON representation
+   *
+   * @param json - JSON representation, as a string or as an object
+   * @returns The scale
+   *
+   * @throws Error - If the JSON does not describe a sextant scheme scale
+   */
+  static fromJSON(json: SextantScaleJSON | string): SextantScale {
+    return new SextantScale(parseScaleJSON(json, 'sextant'));
+  }
+
+  /**
+   * Color of a ternary composition
+   *
+   * @param point - Ternary composition
+   * @returns Hex color code (or null for an invalid composition or the center)
+   */
+  color(point: TernaryPoint): RGBColor | null {
+    const { points } = prepareCompositions([point], this.settings);
+    return this.map(points, this.fitted())[0].rgb;
+  }
+
+  /**
+   * Colors of a set of ternary compositions
+   *
+   * @param data - Array of ternary compositions
+   * @returns Array of hex color codes
+   */
+  colors(data: TernaryPoint[]): (RGBColor | null)[] {
+    return this.results(data).map((result) => result.rgb);
+  }
+
+  /**
+   * Colors of a set of ternary compositions, with full result information
+   *
+   * @param data - Array of ternary compositions
+   * @returns Array of detailed sextant results
+   */
+  results(data: TernaryPoint[]): SextantResult[] {
+    const { points } = prepareCompositions(data, this.settings);
+    return this.map(points, fitSextantOptions(this.settings, points));
+  }
+
+  /**
+   * Colors of a set of ternary compositions stored in typed arrays,
+   * written in a buffer (see ColorMapping.colorMapSextantBuffer)
+   *
+   * Zero replacement and validation are not applied: invalid compositions
+   * are written as transparent black.
+   *
+   * @param input - Three columns (p1, p2, p3), or one interleaved array
+   * @param output - Buffer receiving the colors, as RGBA bytes or packed colors
+   *  (a new RGBA buffer is created if not given)
+   * @returns The buffer of colors
+   */
+  colorBuffer(input: TernaryBuffer, output?: ColorBuffer): ColorBuffer {
+    const s = this.fitted();
+    return ColorMapping.colorMapSextantBuffer(input, s.center, s.values, output);
+  }
+
+  /**
+   * Compute the data-driven center of the scale from a dataset
+   *
+   * @param data - Array of ternary compositions
+   * @returns The scale
+   */
+  fit(data: TernaryPoint[]): this {
+    const { points } = prepareCompositions(data, this.settings);
+    this.settings = fitSextantOptions(this.settings, points);
+    return this;
+  }
+
+  /**
+   * Recover the sextant encoded by a color
+   *
+   * @param color - Hex color code
+   * @param tolerance - Maximum difference allowed on each 8-bit RGB channel
+   * @returns The sextant id (1-6), or null if the color is not on the scale
+   */
+  invert(color: RGBColor, tolerance: number = 0): number | null {
+    return ColorMapping.invertSextant(color, this.settings.values, tolerance);
+  }
+
+  /**
+   * Get the configuration of the scale
+   *
+   * @returns A copy of the configuration options, with every value set
+   */
+  options(): ResolvedSextantOptions;
+  /**
+   * Update the configuration of the scale
+   *
+   * @param options - Configuration options to change
+   * @returns The scale
+   */
+  options(options: SextantOptions): this;
+  options(options?: SextantOptions): ResolvedSextantOptions | this {
+    if (options === undefined) {
+      return resolveSextantOptions(this.settings);
+    }
+    this.settings = resolveSextantOptions({ ...this.settings, ...options });
+    return this;
+  }
+
+  /**
+   * Create an independent copy of the scale
+   *
+   * @returns The copy
+   */
+  copy(): SextantScale {
+    return new SextantScale(this.settings);
+  }
+
+  /**
+   * Polygons and colors to draw a legend of the scale
+   *
+   * @returns Array of legend cells, one per sextant
+   */
+  legendData(): LegendCell[] {
+    const vertices = TernaryGeometry.ternarySextantVertices(this.fitted().center);
+
+    return this.settings.values.map((rgb, i) => ({
+      id: i + 1,
+      vertices: vertices
+        .filter((v) => v.id === i + 1)
+        .sort((a, b) => a.vertex - b.vertex)
+        .map((v) => [v.p1, v.p2, v.p3] as TernaryPoint),
+      rgb,
+    }));
+  }
+
+  /**
+   * JSON representation of the scale
+   *
+   * @returns JSON representation
+   */
+  toJSON(): SextantScaleJSON {
+    return { scheme: 'sextant', ...this.options() };
+  }
+
+  /**
+   * Options of the scale, which must not be data-driven anymore
+   */
+  private fitted(): FittedSextantOptions {
+    const { center } = this.settings;
+    if (center === 'mean') {
+      throw notFittedError();
+    }
+    return { ...this.settings, center };
+  }
+
+  /**
+   * Map ternary compositions to colors with the given options
+   */
+  private map(data: TernaryPoint[], s: FittedSextantOptions): SextantResult[] {
+    return ColorMapping.colorMapSextant(data, s.center, s.values);
+  }
+}
@@ -10,118 +10,234 @@ export * from './types';
 export { CompositionUtils } from './core/compositionUtils';
 export { TernaryGeometry } from './core/ternaryGeometry';
 export { ColorMapping } from './core/colorMapping';
+export { ColorConversion } from './core/colorConversion';
+export { TernaryDensity } from './core/ternaryDensity';
+export { TricoloreScale, SextantScale } from './core/tricoloreScale';
+export { colorizeGeoJSON } from './core/geojson';
 
 // Export visualization
 import { TricoloreViz } from './viz/tricoloreViz';
 export { TricoloreViz };
+export { renderLegendSVG } from './viz/legendSvg';
+export { renderLegendRGBA, renderLegendPNG } from './viz/legendPng';
 
 // Main tricolore functions
+import { TricoloreScale, SextantScale } from './core/tricoloreScale';
 import { ColorMapping } from './core/colorMapping';
+import { fitTricoloreOptions, fitSextantOptions } from './core/options';
+import { prepareCompositions } from './core/preprocessing';
+import { compositions, hasAccessors, keyResults } from './core/accessors';
 import type {
   TernaryPoint,
   TricoloreOptions,
   SextantOptions,
   TricoloreResult,
   SextantResult,
+  RGBColor,
+  InvertOptions,
+  SextantInvertOptions,
+  TricoloreInversion,
+  TricoloreFit,
+  SextantFit,
+  AccessorOptions,
+  RecordResult,
+  RecordFit,
 } from './types';
 
 /**
  * Calculate tricolore colors for a set of ternary compositions
  *
- * @param data - Array of ternary compositions
- * @param options - Configuration options
- * @returns Array of hex color codes
+ * The compositions can also be read from an array of records (e.g. GeoJSON
+ * features) with the p1, p2 and p3 accessors: property names or functions.
+ *
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Configuration options (and accessors for records)
+ * @returns Array of hex color codes, in the order of the data
  */
-export function tricolore(data: TernaryPoint[], options: TricoloreOptions = {}): (string | null)[] {
-  const {
-    center = [1 / 3, 1 / 3, 1 / 3],
-    breaks = 4,
-    hue = 80,
-    chroma = 140,
-    lightness = 80,
-    contrast = 0.4,
-    spread = 1,
-  } = options;
-
-  return ColorMapping.colorMapTricolore(
-    data,
-    center,
-    breaks,
-    hue,
-    chroma,
-    lightness,
-    contrast,
-    spread
-  ).map((result) => result.rgb);
+export function tricolore(data: TernaryPoint[], options?: TricoloreOptions): (string | null)[];
+export function tricolore<T>(
+  data: T[],
+  options: TricoloreOptions & AccessorOptions<T>
+): (string | null)[];
+export function tricolore<T>(
+  data: TernaryPoint[] | T[],
+  options: TricoloreOptions & Partial<AccessorOptions<T>> = {}
+): (string | null)[] {
+  return new TricoloreScale(options).colors(compositions(data, options));
 }
 
 /**
  * Calculate tricolore colors with full result information
  *
- * @param data - Array of ternary compositions
- * @param options - Configuration options
- * @returns Array of detailed color results
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Configuration options (and accessors for records)
+ * @returns Array of detailed color results (with their record for records)
  */
 export function tricoloreDetailed(
   data: TernaryPoint[],
-  options: TricoloreOptions = {}
+  options?: TricoloreOptions
+): TricoloreResult[];
+export function tricoloreDetailed<T>(
+  data: T[],
+  options: TricoloreOptions & AccessorOptions<T>
+): RecordResult<TricoloreResult, T>[];
+export function tricoloreDetailed<T>(
+  data: TernaryPoint[] | T[],
+  options: TricoloreOptions & Partial<AccessorOptions<T>> = {}
 ): TricoloreResult[] {
-  const {
-    center = [1 / 3, 1 / 3, 1 / 3],
-    breaks = 4,
-    hue = 80,
-    chroma = 140,
-    lightness = 80,
-    contrast = 0.4,
-    spread = 1,
-  } = options;
+  const results = new TricoloreScale(options).results(compositions(data, options));
+  return hasAccessors(options) ? keyResults(results, data as T[]) : results;
+}
 
-  return ColorMapping.colorMapTricolore(
-    data,
+/**
+ * Calculate tricolore colors with full result information, along with the
+ * center and spread used (computed from the data for center 'mean'
+ * and spread 'auto'), the compositions whose zeros were replaced
+ * and the invalid compositions
+ *
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Configuration options (and accessors for records)
+ * @returns Detailed color results, center, spread, replaced and invalid compositions
+ */
+export function tricoloreFit(data: TernaryPoint[], options?: TricoloreOptions): TricoloreFit;
+export function tricoloreFit<T>(
+  data: T[],
+  options: TricoloreOptions & AccessorOptions<T>
+): RecordFit<TricoloreFit, T>;
+export function tricoloreFit<T>(
+  data: TernaryPoint[] | T[],
+  options: TricoloreOptions & Partial<AccessorOptions<T>> = {}
+): TricoloreFit {
+  // Prepare the data once, and map them with the options fitted to them
+  const { points, replaced, issues } = prepareCompositions(compositions(data, options), options);
+  const fitted = fitTricoloreOptions(options, points);
+  const { center, spread } = fitted;
+  const results = ColorMapping.colorMapTricolore(
+    points,
     center,
-    breaks,
-    hue,
-    chroma,
-    lightness,
-    contrast,
-    spread
+    fitted.breaks,
+    fitted.hue,
+    fitted.chroma,
+    fitted.lightness,
+    fitted.contrast,
+    spread,
+    fitted.gamutMapping,
+    fitted.colorSpace
   );
+
+  return {
+    results: hasAccessors(options) ? keyResults(results, data as T[]) : results,
+    center,
+    spread,
+    replaced,
+    issues,
+  };
 }
 
 /**
  * Calculate sextant colors for a set of ternary compositions
  *
- * @param data - Array of ternary compositions
- * @param options - Configuration options
- * @returns Array of hex color codes
+ * The compositions can also be read from an array of records (e.g. GeoJSON
+ * features) with the p1, p2 and p3 accessors: property names or functions.
+ *
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Configuration options (and accessors for records)
+ * @returns Array of hex color codes, in the order of the data
  */
-export function tricoloreSextant(
-  data: TernaryPoint[],
-  options: SextantOptions = {}
+export function tricoloreSextant(data: TernaryPoint[], options?: SextantOptions): (string | null)[];
+export function tricoloreSextant<T>(
+  data: T[],
+  options: SextantOptions & AccessorOptions<T>
+): (string | null)[];
+export function tricoloreSextant<T>(
+  data: TernaryPoint[] | T[],
+  options: SextantOptions & Partial<AccessorOptions<T>> = {}
 ): (string | null)[] {
-  const {
-    center = [1 / 3, 1 / 3, 1 / 3],
-    values = ['#FFFF00', '#B3DCC3', '#01A0C6', '#B8B3D8', '#F11D8C', '#FFB3B3'],
-  } = options;
-
-  return ColorMapping.colorMapSextant(data, center, values).map((result) => result.rgb);
+  return new SextantScale(options).colors(compositions(data, options));
 }
 
 /**
  * Calculate sextant colors with full result information
  *
- * @param data - Array of ternary compositions
- * @param options - Configuration options
- * @returns Array of detailed sextant results
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Configuration options (and accessors for records)
+ * @returns Array of detailed sextant results (with their record for records)
  */
 export function tricoloreSextantDetailed(
   data: TernaryPoint[],
-  options: SextantOptions = {}
+  options?: SextantOptions
+): SextantResult[];
+export function tricoloreSextantDetailed<T>(
+  data: T[],
+  options: SextantOptions & AccessorOptions<T>
+): RecordResult<SextantResult, T>[];
+export function tricoloreSextantDetailed<T>(
+  data: TernaryPoint[] | T[],
+  options: SextantOptions & Partial<AccessorOptions<T>> = {}
 ): SextantResult[] {
-  const {
-    center = [1 / 3, 1 / 3, 1 / 3],
-    values = ['#FFFF00', '#B3DCC3', '#01A0C6', '#B8B3D8', '#F11D8C', '#FFB3B3'],
-  } = options;
+  const results = new SextantScale(options).results(compositions(data, options));
+  return hasAccessors(options) ? keyResults(results, data as T[]) : results;
+}
 
-  return ColorMapping.colorMapSextant(data, center, values);
+/**
+ * Calculate sextant colors with full result information, along with
+ * the center used (computed from the data for center 'mean'),
+ * the compositions whose zeros were replaced and the invalid compositions
+ *
+ * @param data - Array of ternary compositions, or of records
+ * @param options - Configuration options (and accessors for records)
+ * @returns Detailed sextant results, center, replaced and invalid compositions
+ *
+ * @throws Error - If values does not contain exactly 6 colors
+ */
+export function tricoloreSextantFit(data: TernaryPoint[], options?: SextantOptions): SextantFit;
+export function tricoloreSextantFit<T>(
+  data: T[],
+  options: SextantOptions & AccessorOptions<T>
+): RecordFit<SextantFit, T>;
+export function tricoloreSextantFit<T>(
+  data: TernaryPoint[] | T[],
+  options: SextantOptions & Partial<AccessorOptions<T>> = {}
+): SextantFit {
+  // Prepare the data once, and map them with the options fitted to them
+  const { points, replaced, issues } = prepareCompositions(compositions(data, options), options);
+  const { center, values } = fitSextantOptions(options, points);
+  if (values.length !== 6) {
+    throw new Error('Sextant values array must have exactly 6 elements');
+  }
+  const results = ColorMapping.colorMapSextant(points, center, values);
+
+  return {
+    results: hasAccessors(options) ? keyResults(results, data as T[]) : results,
+    center,
+    replaced,
+    issues,
+  };
+}
+
+/**
+ * Recover the ternary composition encoded by a color of the balance scheme
+ *
+ * @param color - Hex color code
+ * @param options - Configuration options (the same as used to compute the colors)
+ * @returns The composition (and mesh cell id for a discrete scale),
+ *  or null if the color is not on the scale
+ *
+ * @throws Error - If the center or the spread is data-driven ('mean' or 'auto')
+ */
+export function invert(color: RGBColor, options: InvertOptions = {}): TricoloreInversion | null {
+  const { tolerance = 2 } = options;
+  return new TricoloreScale(options).invert(color, tolerance);
+}
+
+/**
+ * Recover the sextant encoded by a color of the sextant scheme
+ *
+ * @param color - Hex color code
+ * @param options - Configuration options (the same as used to compute the colors)
+ * @returns The sextant id (1-6), or null if the color is not on the scale
+ */
+export function invertSextant(color: RGBColor, options: SextantInvertOptions = {}): number | null {
+  const { tolerance = 0 } = options;
+  return new SextantScale(options).invert(color, tolerance);
 }
@@ -13,12 +13,119 @@ export type TernaryPoint = [number, number, number];
  */
 export type RGBColor = string;
 
+/**
+ * Way to read a part of a composition from a record: either the name of a
+ * property (read from `properties` for GeoJSON features), or a function
+ */
+export type Accessor<T> = string | ((d: T, i: number) => number);
+
+/**
+ * Accessors reading the three parts of the compositions from records
+ */
+export interface AccessorOptions<T> {
+  p1: Accessor<T>;
+  p2: Accessor<T>;
+  p3: Accessor<T>;
+}
+
+/**
+ * Result of color mapping keyed back to the record it was computed from
+ */
+export type RecordResult<R, T> = R & {
+  /** Record the composition was read from */
+  datum: T;
+};
+
+/**
+ * Compositions stored in typed arrays: either three columns (p1, p2, p3),
+ * or one interleaved array (p1, p2, p3, p1, p2, p3, ...)
+ */
+export type TernaryBuffer = [Float64Array, Float64Array, Float64Array] | Float64Array;
+
+/**
+ * Colors stored in typed arrays: either RGBA bytes (4 values per color),
+ * or packed 32-bit colors with the byte layout of ImageData (1 value per color)
+ */
+export type ColorBuffer = Uint8ClampedArray | Uint32Array;
+
+/**
+ * Strategy used to bring colors that fall outside the sRGB gamut back into it
+ * - 'clip': clamp each sRGB channel to [0, 1] (may shift the hue)
+ * - 'chroma': reduce chroma at constant hue and lightness until the color fits
+ */
+export type GamutMapping = 'clip' | 'chroma';
+
+/**
+ * Cylindrical color space in which hue, chroma and lightness are defined
+ * - 'lch-ab': CIE LCh(ab), i.e. polar CIELAB (D65 white point)
+ * - 'oklch': polar OKLab (lightness and chroma are scaled from the CIE ranges)
+ * - 'lch-uv': CIE LCh(uv), i.e. polar CIELUV (D65 white point)
+ */
+export type ColorSpace = 'lch-ab' | 'oklch' | 'lch-uv';
+
+/**
+ * Strategy used to replace the zero parts of compositions
+ * - 'none': keep zeros
+ * - 'multiplicative': replace zeros by a small value and shrink the other parts
+ * - 'additive': add a small value to every part
+ */
+export type ZeroReplacement = 'none' | 'multiplicative' | 'additive';
+
+/**
+ * What to do with invalid compositions
+ * - 'strict': throw an error
+ * - 'warn': exclude them and log a warning
+ * - 'skip': silently exclude them
+ */
+export type ValidationMode = 'strict' | 'warn' | 'skip';
+
+/**
+ * Why a composition is invalid
+ * - 'length': it doesn't have exactly 3 components
+ * - 'nan': it has components that are not finite numbers
+ * - 'negative': it has negative components
+ * - 'zero-sum': its components sum to 0
+ * - 'not-closed': its components don't sum to 1
+ */
+export type ValidationReason = 'length' | 'nan' | 'negative' | 'zero-sum' | 'not-closed';
+
+/**
+ * Invalid composition found during validation
+ */
+export interface ValidationIssue {
+  /** Index of the composition in the input data */
+  index: number;
+  reason: ValidationReason;
+  /** Whether the composition was closed (and kept) or excluded */
+  action: 'closed' | 'excluded';
+}
+
+/**
+ * Options for the preparation of the compositions before color mapping
+ */
+export interface PreprocessingOptions {
+  /**
+   * What to do with invalid compositions (default: 'skip')
+   */
+  validation?: ValidationMode;
+
+  /** How to replace the zero parts of compositions (default: 'none') */
+  zeroReplacement?: ZeroReplacement;
+
+  /** Value replacing zeros, as a proportion (default: 0.001) */
+  zeroDelta?: number;
+}
+
 /**
  * Options for the tricolore color mapping
  */
-export interface TricoloreOptions {
-  /** Center of the ternary color scale (default: [1/3, 1/3, 1/3]) */
-  center?: TernaryPoint;
+export interface TricoloreOptions extends PreprocessingOptions {
+  /**
+   * Center of the ternary color scale (default: [1/3, 1/3, 1/3]),
+   * or 'mean' to use the compositional mean of the data (computed with
+   * their zeros replaced, multiplicatively if zeroReplacement is 'none')
+   */
+  center?: TernaryPoint | 'mean';
 
   /** Number of breaks in the discrete color scale (default: 4) */
   breaks?: number;
@@ -38,21 +145,105 @@ export interface TricoloreOptions {
   /** Contrast of the color scale [0-1] */
   contrast?: number;
 
-  /** Spread of the color scale around center (>0) */
-  spread?: number;
+  /**
+   * Spread of the color scale around center (>0), or 'auto' to choose it
+   * from the compositional variance of the data (default: 1)
+   */
+  spread?: number | 'auto';
+
+  /** How to handle colors outside the sRGB gamut (default: 'clip') */
+  gamutMapping?: GamutMapping;
+
+  /** Color space in which hue, chroma and lightness are defined (default: 'lch-ab') */
+  colorSpace?: ColorSpace;
 }
 
 /**
  * Options for the sextant color mapping
  */
-export interface SextantOptions {
-  /** Center of the ternary color scale (default: [1/3, 1/3, 1/3]) */
-  center?: TernaryPoint;
+export interface SextantOptions extends PreprocessingOptions {
+  /**
+   * Center of the sextants (default: [1/3, 1/3, 1/3]),
+   * or 'mean' to use the compositional mean of the data (computed with
+   * their zeros replaced, multiplicatively if zeroReplacement is 'none')
+   */
+  center?: TernaryPoint | 'mean';
 
   /** Array of 6 RGB color strings for the sextants */
   values?: RGBColor[];
 }
 
+/**
+ * Options of the balance scheme, with every value set
+ */
+export type ResolvedTricoloreOptions = Required<Omit<TricoloreOptions, 'discrete'>>;
+
+/**
+ * Options of the balance scheme, with every value set
+ * and the data-driven center and spread computed
+ */
+export type FittedTricoloreOptions = Omit<ResolvedTricoloreOptions, 'center' | 'spread'> & {
+  center: TernaryPoint;
+  spread: number;
+};
+
+/**
+ * Options of the sextant scheme, with every value set
+ */
+export type ResolvedSextantOptions = Required<SextantOptions>;
+
+/**
+ * Options of the sextant scheme, with every value set
+ * and the data-driven center computed
+ */
+export type FittedSextantOptions = Omit<ResolvedSextantOptions, 'center'> & {
+  center: TernaryPoint;
+};
+
+/**
+ * JSON representation of a balance scheme scale
+ * (continuous scales store their Infinity breaks as null)
+ */
+export type TricoloreScaleJSON = Omit<ResolvedTricoloreOptions, 'breaks'> & {
+  scheme: 'balance';
+  breaks: number | null;
+};
+
+/**
+ * JSON representation of a sextant scheme scale
+ */
+export type SextantScaleJSON = ResolvedSextantOptions & { scheme: 'sextant' };
+
+/**
+ * Options for recovering a composition from a color of the balance scheme
+ */
+export interface InvertOptions extends TricoloreOptions {
+  /**
+   * Maximum difference allowed on each 8-bit RGB channel between the color
+   * and the color of the recovered composition (default: 2)
+   */
+  tolerance?: number;
+}
+
+/**
+ * Options for recovering a sextant from a color of the sextant scheme
+ */
+export interface SextantInvertOptions extends SextantOptions {
+  /**
+   * Maximum difference allowed on each 8-bit RGB channel between the color
+   * and the color of the sextant (default: 0)
+   */
+  tolerance?: number;
+}
+
+/**
+ * Edge of the triangle on which the ticks of an axis are drawn, following
+ * the direction in which the part increases along the edge
+ * - 'counterclockwise': p1 on the left edge, p2 on the right edge and p3 on the base
+ * - 'clockwise': p1 on the base, p2 on the left edge and p3 on the right edge
+ */
+export type TickDirection = 'clockwise' | 'counterclockwise';
+
 /**
  * Visualization options for ternary plots
  */
@@ -71,6 +262,253 @@ export interface VisualizationOptions extends TricoloreOptions {
 
   /** The position of the axis labels: 'corner' | 'edge' (default: 'corner') */
   labelPosition?: 'corner' | 'edge';
+
+  /**
+   * Values of the grid lines and ticks of the axes in [0, 1], or number of
+   * equal steps dividing the axes (default: [0.25, 0.5, 0.75], i.e. 4 steps)
+   */
+  ticks?: number[] | number;
+
+  /** Show the tick labels, whether grid lines are shown or not (default: true) */
+  showTicks?: boolean;
+
+  /**
+   * Format of the tick labels, from the value of the tick and the index of its
+   * axis (default: a percentage, formatted for tickLocale)
+   */
+  tickFormat?: (value: number, axis: number) => string;
+
+  /** Locale of the default tick format, e.g. 'fr' for "25 %" (default: 'en-US') */
+  tickLocale?: string | string[];
+
+  /**
+   * Edge on which the ticks of the axes are drawn, for all axes or for each
+   * axis (default: 'counterclockwise')
+   */
+  tickDirection?: TickDirection | [TickDirection, TickDirection, TickDirection];
+
+  /**
+   * Render the colored triangle of continuous plots in a web worker,
+   * createContinuousPlot then returns a Promise (default: false)
+   */
+  worker?: boolean;
+
+  /**
+   * How the colored triangle of continuous plots is drawn: 'raster' (an image
+   * rendered on a canvas) or 'vector' (a fine mesh of SVG polygons, which stays
+   * sharp when zoomed or printed) (default: 'raster')
+   */
+  rendering?: 'raster' | 'vector';
+
+  /**
+   * Number of rows of the mesh drawing the colored triangle of continuous
+   * plots with vector rendering, before the cells where the colors change
+   * quickly are subdivided (default: 40)
+   */
+  resolution?: number;
+
+  /**
+   * Number of canvas pixels per CSS pixel of the colored triangle of continuous
+   * plots with raster rendering (default: window.devicePixelRatio, or 1)
+   */
+  pixelRatio?: number;
+
+  /**
+   * Show the composition under the pointer with a crosshair and a tooltip,
+   * and emit hover events (default: false)
+   */
+  hover?: boolean;
+
+  /**
+   * How data points are selected by dragging on the triangle: 'lasso' (free
+   * polygon), 'ranges' (ranges of the three parts, between the compositions
+   * where the drag starts and ends) or 'none' (default: 'none')
+   */
+  brush?: 'lasso' | 'ranges' | 'none';
+
+  /**
+   * Draw the density of the data points instead of the points, binned into
+   * the cells of a ternary mesh or into hexagons (default: 'none')
+   */
+  density?: 'none' | 'mesh' | 'hexagon';
+
+  /** How the density is drawn: 'cells' (shaded bins) or 'contours' (default: 'cells') */
+  densityStyle?: 'cells' | 'contours';
+
+  /** Number of rows of the mesh, or of hexagons along the base of the triangle (default: 10) */
+  densityResolution?: number;
+
+  /** Number of contour lines, at equally spaced densities (default: 5) */
+  densityLevels?: number;
+
+  /**
+   * Frequency of the data points in each cell of a discrete or sextant plot:
+   * written in the cell as a 'count' or a 'percent' of the points, or shown
+   * by scaling the 'opacity' of the cell (default: 'none')
+   */
+  frequency?: 'none' | 'count' | 'percent' | 'opacity';
+}
+
+/**
+ * Style of the data points of a ternary plot, read from the data
+ * (compositions, or records with the p1, p2 and p3 accessors)
+ */
+export interface PointOptions<T = TernaryPoint> {
+  /** Fill the points with their color on the color scale of the plot (default: false) */
+  pointColor?: boolean;
+
+  /**
+   * Weight of the points (e.g. population): the area of the points is
+   * proportional to their weight (and their density and the frequency of the
+   * cells are sums of their weights), and points without a positive weight are hidden
+   */
+  pointWeight?: Accessor<T>;
+
+  /** Radius of the points, or of the point with the largest weight (default: 2, or 8 with pointWeight) */
+  pointRadius?: number;
+
+  /** Stroke color of the points (default: no stroke) */
+  pointStroke?: string;
+
+  /** Stroke width of the points (default: 1) */
+  pointStrokeWidth?: number;
+
+  /** Opacity of the points (default: 0.5) */
+  pointOpacity?: number;
+
+  /** Title of the points, shown as a tooltip */
+  pointTitle?: (d: T, i: number) => string;
+}
+
+/**
+ * Options of the plots of TricoloreViz: the data can be compositions,
+ * or records read with the p1, p2 and p3 accessors
+ */
+export type PlotOptions<T = TernaryPoint> = Partial<VisualizationOptions> &
+  PointOptions<T> &
+  Partial<AccessorOptions<T>>;
+
+/**
+ * Composition under the pointer on the triangle of TricoloreViz
+ */
+export interface TernaryHover {
+  point: TernaryPoint;
+  /** Difference between the composition and the center of the color scale */
+  deviation: TernaryPoint;
+  /** Color of the composition on the color scale of the plot */
+  color: RGBColor | null;
+}
+
+/**
+ * Data points selected on the triangle of TricoloreViz
+ */
+export interface TernarySelection {
+  /** Indices of the selected points in the data of the plot */
+  ids: number[];
+  /** How the points were selected: with a brush, or by clicking a cell */
+  mode: 'lasso' | 'ranges' | 'cell';
+  /** Vertices of the lasso, as compositions (lasso selection) */
+  polygon?: TernaryPoint[];
+  /** Minimum and maximum of each part (ranges selection) */
+  ranges?: [[number, number], [number, number], [number, number]];
+  /** Id of the clicked mesh cell or sextant (cell selection) */
+  cell?: number;
+}
+
+/**
+ * Style of the circle of a data point of TricoloreViz
+ */
+export interface PointStyle {
+  /** Radius in pixels */
+  r?: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  opacity?: number;
+}
+
+/**
+ * Style of each data point of TricoloreViz, from its composition, its index
+ * in the data, whether it is highlighted and its record (overrides the style
+ * of the point options)
+ */
+export type PointStyleFunction<T = TernaryPoint> = (
+  point: TernaryPoint,
+  id: number,
+  highlighted: boolean,
+  datum: T
+) => PointStyle;
+
+/**
+ * Events emitted by TricoloreViz, with the value passed to their listeners
+ */
+export interface TricoloreVizEvents {
+  /**
+   * The pointer moved over the triangle (null when it leaves the triangle),
+   * with the hover option
+   */
+  hover: TernaryHover | null;
+
+  /** Data points were selected (null when the selection is cleared) */
+  select: TernarySelection | null;
+}
+
+/**
+ * Margins around a ternary plot
+ */
+export interface Margin {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/**
+ * Options for rendering a ternary plot without the DOM
+ */
+export interface LegendOptions<T = TernaryPoint>
+  extends
+    Omit<VisualizationOptions, 'worker' | 'rendering' | 'pixelRatio' | 'hover' | 'brush'>,
+    PointOptions<T>,
+    Partial<AccessorOptions<T>> {
+  /** Color scheme of the plot: 'continuous', 'discrete' or 'sextant' (default: 'discrete') */
+  type?: 'continuous' | 'discrete' | 'sextant';
+
+  /** Width of the plot, in CSS pixels (default: 650) */
+  width?: number;
+
+  /** Height of the plot, in CSS pixels (default: 520) */
+  height?: number;
+
+  /** Margins around the plot (default: 20 60 50 60) */
+  margin?: Margin;
+
+  /** Colors of the sextants (sextant plot) */
+  values?: string[];
+}
+
+/**
+ * Options for rendering a ternary plot as an SVG string
+ * (the colored triangle of continuous plots is rendered with vector shapes)
+ */
+export type LegendSVGOptions<T = TernaryPoint> = LegendOptions<T>;
+
+/**
+ * Options for rendering a ternary plot as a PNG image
+ */
+export interface LegendPNGOptions<T = TernaryPoint> extends LegendOptions<T> {
+  /** Resolution of the image, in dots per inch (default: 96, i.e. 1 pixel per CSS pixel) */
+  dpi?: number;
+}
+
+/**
+ * RGBA image, with the layout of ImageData
+ */
+export interface LegendImage {
+  width: number;
+  height: number;
+  /** RGBA bytes, row by row from the top left corner */
+  data: Uint8ClampedArray;
 }
 
 /**
@@ -84,8 +522,120 @@ export interface TricoloreResult {
   c: number | null;
   l: number | null;
   rgb: RGBColor | null;
+  /** Whether the requested HCL color is representable in sRGB */
+  inGamut: boolean | null;
+  /** Chroma of the color actually rendered (after gamut mapping) */
+  effectiveChroma: number | null;
+  /** Id of the mesh cell of the composition (null for a continuous scale) */
+  cell: number | null;
+  /** Centroid of the mesh cell (null for a continuous scale) */
+  centroid: TernaryPoint | null;
 }
 
+/**
+ * Result of the conversion of a HCL color to sRGB
+ */
+export interface GamutMappedColor {
+  /** Hex RGB color */
+  rgb: RGBColor;
+  /** Whether the requested HCL color is representable in sRGB */
+  inGamut: boolean;
+  /** Chroma of the color actually rendered (after gamut mapping) */
+  chroma: number;
+}
+
+/**
+ * Composition recovered from a color of the balance scheme
+ */
+export interface TricoloreInversion {
+  p1: number;
+  p2: number;
+  p3: number;
+  /** Id of the mesh cell encoded by the color (null for a continuous scale) */
+  cell: number | null;
+}
+
+/**
+ * Colors of a dataset with the balance scheme, along with
+ * the center and spread used (as computed from the data if requested)
+ */
+export interface TricoloreFit {
+  results: TricoloreResult[];
+  center: TernaryPoint;
+  spread: number;
+  /** Indices of the compositions whose zeros were replaced */
+  replaced: number[];
+  /** Invalid compositions found in the data */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Colors of a dataset with the sextant scheme, along with
+ * the center used (as computed from the data if requested)
+ */
+export interface SextantFit {
+  results: SextantResult[];
+  center: TernaryPoint;
+  /** Indices of the compositions whose zeros were replaced */
+  replaced: number[];
+  /** Invalid compositions found in the data */
+  issues: ValidationIssue[];
+}
+
+/**
+ * Colors of a dataset of records, along with the parameters used,
+ * with each result keyed back to its record
+ */
+export type RecordFit<F extends { results: unknown[] }, T> = Omit<F, 'results'> & {
+  results: RecordResult<F['results'][number], T>[];
+};
+
+/**
+ * GeoJSON feature (geometry is not used by the library)
+ */
+export interface GeoJSONFeature<P = Record<string, unknown>> {
+  type: 'Feature';
+  geometry: unknown;
+  properties: P | null;
+  id?: string | number;
+}
+
+/**
+ * GeoJSON feature collection
+ */
+export interface GeoJSONFeatureCollection<P = Record<string, unknown>> {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature<P>[];
+}
+
+/**
+ * Properties added to the features by colorizeGeoJSON
+ */
+export interface TricoloreFeatureProperties {
+  /** Hex color of the feature (null for an invalid composition) */
+  tricolore_rgb: RGBColor | null;
+  /**
+   * Closed composition read from the feature, before zero replacement
+   * (null for an invalid composition)
+   */
+  tricolore_p1: number | null;
+  tricolore_p2: number | null;
+  tricolore_p3: number | null;
+  /** Id of the mesh cell (balance scheme, null for a continuous scale) */
+  tricolore_cell?: number | null;
+  /** Id of the sextant (sextant scheme) */
+  tricolore_sextant?: number | null;
+  /** Whether the composition of the feature is valid */
+  tricolore_valid: boolean;
+}
+
+/**
+ * Options for coloring a GeoJSON feature collection, with the scheme
+ * to use ('balance' by default) and the accessors of the compositions
+ */
+export type ColorizeGeoJSONOptions<P> = AccessorOptions<GeoJSONFeature<P>> &
+  (({ scheme?: 'balance' } & TricoloreOptions) | ({ scheme: 'sextant' } & SextantOptions));
+
 /**
  * Result of sextant color mapping
  */
@@ -97,6 +647,17 @@ export interface SextantResult {
   rgb: RGBColor | null;
 }
 
+/**
+ * Polygon of a legend, with its color
+ */
+export interface LegendCell {
+  /** Id of the mesh cell or of the sextant */
+  id: number;
+  /** Vertices of the polygon */
+  vertices: TernaryPoint[];
+  rgb: RGBColor | null;
+}
+
 /**
  * Centroid of a sub-triangle in a ternary mesh
  */
@@ -117,3 +678,26 @@ export interface TernaryVertex {
   p2: number;
   p3: number;
 }
+
+/**
+ * Bin of the density of ternary points: a cell of a ternary mesh, or a hexagon
+ */
+export interface DensityBin {
+  /** Vertices of the bin (clipped to the triangle) */
+  vertices: TernaryPoint[];
+  /** Center of the bin (outside of the triangle for some hexagons on its edges) */
+  center: TernaryPoint;
+  /** Number of points in the bin, or sum of their weights */
+  value: number;
+}
+
+/**
+ * Density of ternary points, binned and sampled for contouring
+ */
+export interface DensityGrid {
+  bins: DensityBin[];
+  /** Points where the density is sampled, with its value */
+  samples: { point: TernaryPoint; value: number }[];
+  /** Triangles joining the samples (indices), on which the density is interpolated */
+  triangles: [number, number, number][];
+}
@@ -0,0 +1,294 @@
+import { ColorSpace, GamutMapping, TernaryPoint } from '../types';
+import { tricolorePixels, PixelKernelParams } from '../core/pixelKernel';
+
+// Number of rendered legends kept in memory
+const CACHE_SIZE = 8;
+
+// Rendered legends, from the least to the most recently used
+const cache = new Map<string, Uint8ClampedArray>();
+
+// URL of the script of the workers rendering legends (created on first use)
+let workerUrl: string | null = null;
+
+/**
+ * Render the continuous color triangle of the balance scheme as RGBA pixels
+ *
+ * Pixels are colored row by row between the edges of the triangle (pixels
+ * outside of it are left transparent).
+ *
+ * Like tricolorePixels, the function must not reference anything defined
+ * outside of its body, as its source is sent to web workers: the kernel
+ * coloring the pixels is given as a parameter.
+ *
+ * @param size - Width and height of the image in pixels
+ * @param params - Parameters of the balance scheme
+ * @param kernel - Function coloring the pixels (tricolorePixels)
+ * @returns RGBA pixels of the image
+ */
+export function legendPixels(
+  size: number,
+  params: PixelKernelParams,
+  kernel: typeof tricolorePixels
+): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(size * size * 4);
+  const row = new Float64Array(size * 3);
+  const view = {
+    parts: [row, row, row] as [Float64Array, Float64Array, Float64Array],
+    stride: 3,
+    offset: 1,
+    length: 0,
+  };
+
+  for (let y = 0; y < size; y++) {
+    // Ternary coordinates of the pixels (see TernaryGeometry.cartesianToTernary):
+    // the triangle spans p3 >= 0 and p1 >= 0, i.e. p2 / 2 <= x / size <= 1 - p2 / 2
+    const p2 = (2 * (1 - y / size)) / Math.sqrt(3);
+    if (p2 < 0 || p2 > 1) continue;
+    const start = Math.max(0, Math.floor((size * p2) / 2));
+    const end = Math.min(size - 1, Math.ceil(size * (1 - p2 / 2)));
+
+    // Compositions of the pixels of the row, with the pixels that are
+    // outside the triangle (on the bounds) marked as invalid
+    let n = 0;
+    for (let x = start; x <= end; x++, n++) {
+      const p3 = x / size - p2 / 2;
+      const p1 = 1 - p2 - p3;
+      const inside = p1 >= 0 && p1 <= 1 && p3 >= 0 && p3 <= 1;
+      row[3 * n] = inside ? p1 : NaN;
+      row[3 * n + 1] = p2;
+      row[3 * n + 2] = p3;
+    }
+
+    view.length = n;
+    kernel(view, pixels.subarray(4 * (y * size + start), 4 * (y * size + end + 1)), params);
+  }
+
+  return pixels;
+}
+
+/**
+ * Render the continuous color triangle of the balance scheme as RGBA pixels,
+ * reusing the last rendered legends so that rendering again with the same
+ * settings is instant
+ *
+ * @param size - Width and height of the image in pixels
+ * @param center - Center of color scale
+ * @param hue - Primary hue in degrees [0-360]
+ * @param chroma - Maximum chroma [0-200]
+ * @param lightness - Lightness [0-100]
+ * @param contrast - Contrast [0-1]
+ * @param spread - Spread around center (>0)
+ * @param gamutMapping - How to handle colors outside the sRGB gamut
+ * @param colorSpace - Color space in which hue, chroma and lightness are defined
+ * @returns RGBA pixels of the image (shared with the cache, must not be modified)
+ */
+export function continuousLegendPixels(
+  size: number,
+  center: TernaryPoint,
+  hue: number,
+  chroma: number,
+  lightness: number,
+  contrast: number,
+  spread: number,
+  gamutMapping: GamutMapping,
+  colorSpace: ColorSpace
+): Uint8ClampedArray {
+  const params = legendParams(
+    center,
+    hue,
+    chroma,
+    lightness,
+    contrast,
+    spread,
+    gamutMapping,
+    colorSpace
+  );
+  const key = cacheKey(size, params);
+  return cached(key) ?? store(key, legendPixels(size, params, tricolorePixels));
+}
+
+/**
+ * Renders continuous legends in web workers, one at a time: starting
+ * a render cancels the previous one if it is not finished
+ */
+export class LegendRenderer {
+  private cancelPending: (() => void) | null = null;
+
+  /**
+   * Whether web workers can be used in the current environment
+   */
+  static get supported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof Blob !== 'undefined' &&
+      typeof URL !== 'undefined' &&
+      typeof URL.createObjectURL === 'function'
+    );
+  }
+
+  /**
+   * Render the continuous color triangle of the balance scheme in a web
+   * worker (or synchronously if web workers are not available)
+   *
+   * @param size - Width and height of the image in pixels
+   * @param center - Center of color scale
+   * @param hue - Primary hue in degrees [0-360]
+   * @param chroma - Maximum chroma [0-200]
+   * @param lightness - Lightness [0-100]
+   * @param contrast - Contrast [0-1]
+   * @param spread - Spread around center (>0)
+   * @param gamutMapping - How to handle colors outside the sRGB gamut
+   * @param colorSpace - Color space in which hue, chroma and lightness are defined
+   * @returns RGBA pixels of the image (shared with the cache, must not be modified),
+   *  or null if the render was cancelled by a more recent one
+   */
+  render(
+    size: number,
+    center: TernaryPoint,
+    hue: number,
+    chroma: number,
+    lightness: number,
+    contrast: number,
+    spread: number,
+    gamutMapping: GamutMapping,
+    colorSpace: ColorSpace
+  ): Promise<Uint8ClampedArray | null> {
+    this.cancel();
+
+    const params = legendParams(
+      center,
+      hue,
+      chroma,
+      lightness,
+      contrast,
+      spread,
+      gamutMapping,
+      colorSpace
+    );
+    const key = cacheKey(size, params);
+    const hit = cached(key);
+    if (hit) {
+      return Promise.resolve(hit);
+    }
+
+    const renderSync = () => store(key, legendPixels(size, params, tricolorePixels));
+    if (!LegendRenderer.supported) {
+      return Promise.resolve(renderSync());
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(legendWorkerUrl());
+    } catch {
+      // Workers may be forbidden, e.g. by a content security policy
+      return Promise.resolve(renderSync());
+    }
+
+    return new Promise((resolve) => {
+      const done = (pixels: Uint8ClampedArray | null) => {
+        worker.terminate();
+        this.cancelPending = null;
+        resolve(pixels);
+      };
+
+      this.cancelPending = () => done(null);
+      worker.onmessage = (event: MessageEvent<Uint8ClampedArray>) => done(store(key, event.data));
+      worker.onerror = () => done(renderSync());
+      worker.postMessage({ size, params });
+    });
+  }
+
+  /**
+   * Cancel the render in progress, if any (its promise resolves to null)
+   */
+  cancel(): void {
+    this.cancelPending?.();
+  }
+}
+
+/**
+ * Parameters of a continuous scale of the balance scheme
+ */
+function legendParams(
+  center: TernaryPoint,
+  hue: number,
+  chroma: number,
+  lightness: number,
+  contrast: number,
+  spread: number,
+  gamutMapping: GamutMapping,
+  colorSpace: ColorSpace
+): PixelKernelParams {
+  return {
+    center,
+    breaks: Infinity,
+    centroids: null,
+    hue,
+    chroma,
+    lightness,
+    contrast,
+    spread,
+    gamutMapping,
+    colorSpace,
+  };
+}
+
+/**
+ * Key of a legend in the cache
+ */
+function cacheKey(size: number, params: PixelKernelParams): string {
+  const { center, hue, chroma, lightness, contrast, spread, gamutMapping, colorSpace } = params;
+  return JSON.stringify([
+    size,
+    center,
+    hue,
+    chroma,
+    lightness,
+    contrast,
+    spread,
+    gamutMapping,
+    colorSpace,
+  ]);
+}
+
+/**
+ * Get a legend from the cache, marking it as the most recently used
+ */
+function cached(key: string): Uint8ClampedArray | undefined {
+  const pixels = cache.get(key);
+  if (pixels) {
+    cache.delete(key);
+    cache.set(key, pixels);
+  }
+  return pixels;
+}
+
+/**
+ * Store a legend in the cache, evicting the least recently used one if needed
+ */
+function store(key: string, pixels: Uint8ClampedArray): Uint8ClampedArray {
+  cache.set(key, pixels);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  return pixels;
+}
+
+/**
+ * URL of the script of the workers rendering legends, made
+ * of the sources of the (self-contained) rendering functions
+ */
+function legendWorkerUrl(): string {
+  if (!workerUrl) {
+    const source = `
+const tricolorePixels = ${tricolorePixels.toString()};
+const legendPixels = ${legendPixels.toString()};
+self.onmessage = (event) => {
+  const pixels = legendPixels(event.data.size, event.data.params, tricolorePixels);
+  self.postMessage(pixels, [pixels.buffer]);
+};
+`;
+    workerUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  }
+  return workerUrl;
+}
@@ -0,0 +1,1152 @@
+import {
+  ColorSpace,
+  FittedSextantOptions,
+  FittedTricoloreOptions,
+  GamutMapping,
+  LegendOptions,
+  Margin,
+  PointOptions,
+  PointStyle,
+  RGBColor,
+  TernaryPoint,
+  TernaryVertex,
+  TickDirection,
+  VisualizationOptions,
+} from '../types';
+import { TernaryGeometry } from '../core/ternaryGeometry';
+import { TernaryDensity } from '../core/ternaryDensity';
+import { ColorMapping } from '../core/colorMapping';
+import { CompositionUtils } from '../core/compositionUtils';
+import { fitTricoloreOptions, fitSextantOptions } from '../core/options';
+import { prepareCompositions } from '../core/preprocessing';
+import { compositions, readValues } from '../core/accessors';
+import { SvgNode, svgNode } from './svgNode';
+
+/**
+ * Default margins around the ternary plot
+ */
+export const DEFAULT_MARGIN: Margin = { top: 20, right: 60, bottom: 50, left: 60 };
+
+/**
+ * Default values of the grid lines and ticks of the axes
+ */
+const DEFAULT_TICKS = [0.25, 0.5, 0.75];
+
+/**
+ * Elements of a ternary plot, from the bottom to the top layer
+ */
+export interface LegendLayers {
+  /** Colored triangle, border, center point and center lines */
+  triangle: SvgNode[];
+  /** Axis names, grid lines and ticks */
+  legend: SvgNode[];
+  /** Data points */
+  circles: SvgNode[];
+}
+
+/**
+ * Default style of the data points
+ */
+export const DEFAULT_POINT_STYLE: PointStyle = { r: 2, fill: 'black', opacity: 0.5 };
+
+/**
+ * Data point of a plot, with its index in the data
+ */
+export interface DataPoint {
+  point: TernaryPoint;
+  id: number;
+  /** Record the point was read from (the composition itself without accessors) */
+  datum: unknown;
+  /** Style of the point from the point options */
+  style: PointStyle;
+}
+
+/**
+ * Ternary plot rendered without the DOM, with its options fitted to the data
+ */
+export type FittedLegend = {
+  /** Prepared ternary points of the data */
+  points: TernaryPoint[];
+  /** Records of the points (the data as given) */
+  records: unknown[];
+  /** Side of the square holding the triangle */
+  size: number;
+  width: number;
+  height: number;
+  margin: Margin;
+} & (
+  | { type: 'continuous' | 'discrete'; scheme: FittedTricoloreOptions }
+  | { type: 'sextant'; scheme: FittedSextantOptions }
+);
+
+/**
+ * Groups an array of items into a nested Map based on one or more key functions.
+ * Mimics the behavior of d3.group.
+ *
+ * @param data - The flat array of items to group
+ * @param keys - One or more accessor functions that return the grouping key for each item
+ * @returns A nested Map where each level corresponds to one key function
+ */
+function group<T>(data: T[], ...keys: ((item: T) => unknown)[]): Map<unknown, unknown> {
+  // Base case: no keys provided, return the data as-is
+  if (keys.length === 0) return new Map();
+
+  const [firstKey, ...restKeys] = keys;
+  const map = new Map<unknown, unknown>();
+
+  // Group items by the first key
+  for (const item of data) {
+    const k = firstKey(item);
+    if (!map.has(k)) map.set(k, []);
+    (map.get(k) as T[]).push(item);
+  }
+
+  // Recursively group by remaining keys
+  if (restKeys.length > 0) {
+    for (const [k, values] of map) {
+      map.set(k, group(values as T[], ...restKeys));
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Convert ternary coordinates to SVG coordinates
+ */
+export function ternaryToSvgCoords(p: TernaryPoint, size: number): [number, number] {
+  const [x, y] = TernaryGeometry.ternaryToCartesian(p);
+  return [x * size, size - y * size];
+}
+
+/**
+ * Convert SVG coordinates to ternary coordinates
+ */
+export function svgToTernaryCoords(point: [number, number], size: number): TernaryPoint {
+  return TernaryGeometry.cartesianToTernary(point[0] / size, 1 - point[1] / size);
+}
+
+/**
+ * Whether a point is inside a polygon (even-odd rule)
+ */
+export function insidePolygon(x: number, y: number, vertices: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [xi, yi] = vertices[i];
+    const [xj, yj] = vertices[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Side of the square holding the triangle of a plot
+ */
+export function plotSize(width: number, height: number, margin: Margin): number {
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  return Math.min(plotWidth, plotHeight);
+}
+
+/**
+ * Prepare the data of a ternary plot rendered without the DOM,
+ * and fit the options of its color scheme to them
+ *
+ * @param data - Array of ternary points, or of records
+ * @param options - Visualization options, with the type and size of the plot
+ *  (and accessors for records)
+ * @returns Plot with its options fitted to the data
+ *
+ * @throws Error - If validation is 'strict' and data contains invalid ternary points
+ */
+export function fitLegend<T>(data: TernaryPoint[] | T[], options: LegendOptions<T>): FittedLegend {
+  const { type = 'discrete', width = 650, height = 520, margin = DEFAULT_MARGIN } = options;
+  const { points } = prepareCompositions(compositions(data, options), options);
+  const records: unknown[] = data;
+  const size = plotSize(width, height, margin);
+
+  if (type === 'sextant') {
+    const scheme = fitSextantOptions(options, points);
+    if (scheme.values.length !== 6) {
+      throw new Error('Sextant plot requires exactly 6 color values');
+    }
+    return { type, scheme, points, records, size, width, height, margin };
+  }
+
+  return {
+    type,
+    scheme: fitTricoloreOptions(options, points),
+    points,
+    records,
+    size,
+    width,
+    height,
+    margin,
+  };
+}
+
+/**
+ * Color of a composition on the color scale of a plot rendered without the DOM
+ *
+ * @param legend - Plot with its options fitted to the data
+ * @returns Function returning the color of a composition
+ */
+export function legendColor(legend: FittedLegend): (p: TernaryPoint) => RGBColor | null {
+  if (legend.type === 'sextant') {
+    const { center, values } = legend.scheme;
+    return (p) => ColorMapping.colorMapSextant([p], center, values)[0].rgb;
+  }
+
+  const { center, hue, chroma, lightness, contrast, spread, gamutMapping, colorSpace } =
+    legend.scheme;
+  const breaks = legend.type === 'continuous' ? Infinity : legend.scheme.breaks;
+  return (p) =>
+    ColorMapping.colorMapTricolore(
+      [p],
+      center,
+      breaks,
+      hue,
+      chroma,
+      lightness,
+      contrast,
+      spread,
+      gamutMapping,
+      colorSpace
+    )[0].rgb;
+}
+
+/**
+ * Cell of a plot rendered without the DOM holding a composition: its mesh
+ * cell for a discrete plot, or its sextant for a sextant plot
+ *
+ * @param legend - Plot with its options fitted to the data
+ * @returns Function returning the id of the cell holding a composition
+ *  (null for a continuous plot)
+ */
+export function legendCell(legend: FittedLegend): ((p: TernaryPoint) => number | null) | null {
+  if (legend.type === 'sextant') {
+    const { center } = legend.scheme;
+    return (p) => TernaryGeometry.ternarySurroundingSextant([p], center)[0];
+  }
+  if (legend.type === 'discrete') {
+    const { breaks } = legend.scheme;
+    return (p) => TernaryGeometry.ternaryMeshCell(p, breaks);
+  }
+  return null;
+}
+
+/**
+ * Lay out a ternary plot: the colored triangle, then its frame
+ * and the data points (as requested by the options)
+ *
+ * @param size - Side of the square holding the triangle
+ * @param field - Elements of the colored triangle
+ * @param points - Ternary points of the data
+ * @param center - Center of the color scale
+ * @param options - Visualization options, with the style of the points
+ * @param color - Color of a composition on the color scale of the plot
+ *  (used by the pointColor option)
+ * @param records - Records of the points (default: the points)
+ * @returns Elements of the plot, by layer
+ */
+export function legendLayers<T>(
+  size: number,
+  field: SvgNode[],
+  points: TernaryPoint[],
+  center: TernaryPoint,
+  options: Partial<VisualizationOptions> & PointOptions<T>,
+  color: (p: TernaryPoint) => RGBColor | null = () => null,
+  records: unknown[] = points
+): LegendLayers {
+  const {
+    showData = true,
+    showCenter = true,
+    showLines = true,
+    labels = ['p₁', 'p₂', 'p₃'],
+    labelPosition = 'corner',
+    ticks = DEFAULT_TICKS,
+    showTicks = true,
+    tickLocale = 'en-US',
+    tickFormat = percentFormat(tickLocale),
+    tickDirection = 'counterclockwise',
+    density = 'none',
+  } = options;
+
+  const values = tickValues(ticks);
+  const frame = triangleFrame(size, labels, center, showCenter, showLines, labelPosition, values);
+
+  return {
+    triangle: [...field, ...frame.triangle],
+    legend: showTicks
+      ? [...frame.legend, ...tickLabels(size, values, tickFormat, tickDirection)]
+      : frame.legend,
+    circles:
+      !showData || points.length === 0
+        ? []
+        : density === 'none'
+          ? dataPoints(points, size, options, color, records as T[])
+          : densityBins(points, size, options, records as T[]),
+  };
+}
+
+/**
+ * Polygons of the cells of a segmented triangle, colored with the
+ * balance scheme at their centroid
+ *
+ * @param size - Side of the square holding the triangle
+ * @param k - Number of rows of the segmented triangle
+ * @param center - Center of color scale
+ * @param hue - Primary hue in degrees [0-360]
+ * @param chroma - Maximum chroma [0-200]
+ * @param lightness - Lightness [0-100]
+ * @param contrast - Contrast [0-1]
+ * @param spread - Spread around center (>0)
+ * @param gamutMapping - How to handle colors outside the sRGB gamut
+ * @param colorSpace - Color space in which hue, chroma and lightness are defined
+ * @returns Polygons of the cells, ordered by id
+ */
+export function meshCells(
+  size: number,
+  k: number,
+  center: TernaryPoint,
+  hue: number,
+  chroma: number,
+  lightness: number,
+  contrast: number,
+  spread: number,
+  gamutMapping: GamutMapping,
+  colorSpace: ColorSpace
+): SvgNode[] {
+  // Generate mesh centroids and vertices
+  const centroids = TernaryGeometry.ternaryMeshCentroids(k);
+  const vertices = TernaryGeometry.ternaryMeshVertices(centroids);
+
+  // Calculate colors for each centroid
+  const centroidPoints = centroids.map((c) => [c.p1, c.p2, c.p3] as TernaryPoint);
+  const colors = ColorMapping.colorMapTricolore(
+    centroidPoints,
+    center,
+    100,
+    hue,
+    chroma,
+    lightness,
+    contrast,
+    spread,
+    gamutMapping,
+    colorSpace
+  );
+
+  // Group vertices by triangle id
+  const triangleGroups = group(vertices, (d) => d.id) as Map<number, TernaryVertex[]>;
+
+  // Create a polygon for each triangle
+  return [...triangleGroups].map(([id, triangleVertices]) =>
+    svgNode('polygon', {
+      points: polygonPoints(triangleVertices, size),
+      fill: colors[id - 1].rgb,
+      stroke: 'none',
+    })
+  );
+}
+
+/**
+ * Largest difference between the RGB channels of the vertices of a cell
+ * drawing a continuous scale, beyond which the cell is subdivided
+ */
+const MAX_COLOR_STEP = 4;
+
+/**
+ * Number of times a cell drawing a continuous scale can be subdivided
+ */
+const MAX_SUBDIVISIONS = 3;
+
+/**
+ * Polygons of the cells of a fine segmented triangle drawing a continuous
+ * scale of the balance scheme
+ *
+ * Each cell is filled with a flat color, the color at its centroid. The cells
+ * whose vertex colors differ by more than MAX_COLOR_STEP on an RGB channel are
+ * split into 4 (up to MAX_SUBDIVISIONS times), so that the steps between
+ * adjacent cells stay invisible where the colors change quickly.
+ *
+ * @param size - Side of the square holding the triangle
+ * @param k - Number of rows of the segmented triangle, before subdivision
+ * @param center - Center of color scale
+ * @param hue - Primary hue in degrees [0-360]
+ * @param chroma - Maximum chroma [0-200]
+ * @param lightness - Lightness [0-100]
+ * @param contrast - Contrast [0-1]
+ * @param spread - Spread around center (>0)
+ * @param gamutMapping - How to handle colors outside the sRGB gamut
+ * @param colorSpace - Color space in which hue, chroma and lightness are defined
+ * @returns Polygons of the cells
+ */
+export function continuousMeshCells(
+  size: number,
+  k: number,
+  center: TernaryPoint,
+  hue: number,
+  chroma: number,
+  lightness: number,
+  contrast: number,
+  spread: number,
+  gamutMapping: GamutMapping,
+  colorSpace: ColorSpace
+): SvgNode[] {
+  const colorMap = (points: TernaryPoint[]) =>
+    ColorMapping.colorMapTricolore(
+      points,
+      center,
+      Infinity,
+      hue,
+      chroma,
+      lightness,
+      contrast,
+      spread,
+      gamutMapping,
+      colorSpace
+    ).map((result) => result.rgb!);
+
+  // Vertices are shared by up to 6 cells: index them by their position on
+  // the lattice of the finest mesh, and compute each of their colors once
+  const n = k * 2 ** MAX_SUBDIVISIONS;
+  const key = (p: TernaryPoint) => Math.round(p[1] * n) * (n + 1) + Math.round(p[2] * n);
+  const colors = new Map<number, [number, number, number]>();
+  const colorVertices = (cells: TernaryPoint[][]) => {
+    const missing = new Map<number, TernaryPoint>();
+    cells.flat().forEach((p) => colors.has(key(p)) || missing.set(key(p), p));
+    const rgb = colorMap([...missing.values()]);
+    [...missing.keys()].forEach((id, i) => colors.set(id, ColorMapping.hexToRgb(rgb[i])));
+  };
+  const colorStep = (cell: TernaryPoint[]) => {
+    const [a, b, c] = cell.map((p) => colors.get(key(p))!);
+    return Math.max(
+      ...[0, 1, 2].map((i) => Math.max(a[i], b[i], c[i]) - Math.min(a[i], b[i], c[i]))
+    );
+  };
+
+  const centroids = TernaryGeometry.ternaryMeshCentroids(k);
+  const vertices = TernaryGeometry.ternaryMeshVertices(centroids);
+  const triangleGroups = group(vertices, (d) => d.id) as Map<number, TernaryVertex[]>;
+  let cells = [...triangleGroups.values()].map((triangleVertices) =>
+    triangleVertices.map((v): TernaryPoint => [v.p1, v.p2, v.p3])
+  );
+
+  // Subdivide the cells level by level, until their colors are close enough
+  const leaves: TernaryPoint[][] = [];
+  for (let level = 0; cells.length > 0; level++) {
+    colorVertices(cells);
+    const split: TernaryPoint[][] = [];
+    cells.forEach((cell) => {
+      if (level === MAX_SUBDIVISIONS || colorStep(cell) <= MAX_COLOR_STEP) {
+        leaves.push(cell);
+        return;
+      }
+      const [a, b, c] = cell;
+      const mid = (p: TernaryPoint, q: TernaryPoint): TernaryPoint => [
+        (p[0] + q[0]) / 2,
+        (p[1] + q[1]) / 2,
+        (p[2] + q[2]) / 2,
+      ];
+      const [ab, bc, ca] = [mid(a, b), mid(b, c), mid(c, a)];
+      split.push([a, ab, ca], [ab, b, bc], [ca, bc, c], [ab, bc, ca]);
+    });
+    cells = split;
+  }
+
+  const fills = colorMap(
+    leaves.map(([a, b, c]) => [
+      (a[0] + b[0] + c[0]) / 3,
+      (a[1] + b[1] + c[1]) / 3,
+      (a[2] + b[2] + c[2]) / 3,
+    ])
+  );
+
+  return leaves.map((cell, i) =>
+    // Outline the cells with their color, hiding the seams
+    // that antialiasing leaves between adjacent cells
+    svgNode('polygon', {
+      points: polygonPoints(
+        cell.map(([p1, p2, p3], vertex) => ({ id: i + 1, vertex, p1, p2, p3 })),
+        size
+      ),
+      fill: fills[i],
+      stroke: fills[i],
+      'stroke-width': 0.5,
+      'stroke-linejoin': 'round',
+    })
+  );
+}
+
+/**
+ * Polygons of the sextants of the sextant scheme
+ *
+ * @param size - Side of the square holding the triangle
+ * @param center - Center of the sextants
+ * @param values - Colors of the six sextants
+ * @returns Polygons of the sextants, ordered by id
+ */
+export function sextantCells(size: number, center: TernaryPoint, values: string[]): SvgNode[] {
+  // Generate sextant vertices
+  const vertices = TernaryGeometry.ternarySextantVertices(center);
+
+  // Group vertices by sextant id
+  const sextantGroups = group(vertices, (d) => d.id) as Map<number, TernaryVertex[]>;
+
+  // Create a polygon for each sextant
+  return [...sextantGroups].map(([id, sextantVertices]) => {
+    // Sort vertices by vertex id to ensure proper polygon drawing
+    sextantVertices.sort((a, b) => a.vertex - b.vertex);
+
+    return svgNode('polygon', {
+      points: polygonPoints(sextantVertices, size),
+      fill: values[id - 1],
+      stroke: 'none',
+    });
+  });
+}
+
+/**
+ * Frequency of the data points in each cell of a discrete or sextant plot:
+ * their number, or the sum of their weights
+ *
+ * @param points - Ternary points of the data
+ * @param cellOf - Id of the cell holding a composition (null if none)
+ * @param count - Number of cells
+ * @param options - Point options, with the weight of the points
+ * @param records - Records of the points (default: the points)
+ * @returns Frequency of each cell, ordered by id
+ */
+export function cellFrequencies<T>(
+  points: TernaryPoint[],
+  cellOf: (p: TernaryPoint) => number | null,
+  count: number,
+  options: PointOptions<T>,
+  records: unknown[] = points
+): number[] {
+  const { pointWeight } = options;
+  const weights = pointWeight === undefined ? null : readValues(records as T[], pointWeight);
+  const frequencies = new Array<number>(count).fill(0);
+
+  // Invalid points and points without a positive weight are not counted
+  CompositionUtils.close([...points]).forEach((p, i) => {
+    const w = weights ? weights[i] : 1;
+    const cell = p && w > 0 && w < Infinity ? cellOf(p) : null;
+    if (cell !== null) frequencies[cell - 1] += w;
+  });
+
+  return frequencies;
+}
+
+/**
+ * Annotate the cells of a discrete or sextant plot with the frequency of
+ * the data points they hold: the count or percentage is written at the
+ * center of the cells holding points, or the opacity of the cells is
+ * scaled from transparent (empty) to opaque (most frequent)
+ *
+ * @param cells - Polygons of the cells, ordered by id
+ * @param cellOf - Id of the cell holding a composition (null if none)
+ * @param points - Ternary points of the data
+ * @param options - Visualization options, with the frequency and the weight of the points
+ * @param records - Records of the points (default: the points)
+ * @returns Polygons of the cells, followed by their labels
+ */
+export function frequencyCells<T>(
+  cells: SvgNode[],
+  cellOf: (p: TernaryPoint) => number | null,
+  points: TernaryPoint[],
+  options: Partial<VisualizationOptions> & PointOptions<T>,
+  records: unknown[] = points
+): SvgNode[] {
+  const { frequency = 'none' } = options;
+  if (frequency === 'none') return cells;
+
+  const frequencies = cellFrequencies(points, cellOf, cells.length, options, records);
+  const total = frequencies.reduce((sum, f) => sum + f, 0);
+  if (total === 0) return cells;
+
+  if (frequency === 'opacity') {
+    const max = Math.max(...frequencies);
+    return cells.map((cell, i) =>
+      svgNode(cell.tag, { ...cell.attrs, opacity: frequencies[i] / max }, cell.children)
+    );
+  }
+
+  const labels = cells.flatMap((cell, i) => {
+    if (frequencies[i] === 0) return [];
+
+    // The cells are convex: the mean of their vertices is inside
+    const vertices = String(cell.attrs.points)
+      .trim()
+      .split(/\s+/)
+      .map((pair) => pair.split(',').map(Number));
+    const x = vertices.reduce((sum, v) => sum + v[0], 0) / vertices.length;
+    const y = vertices.reduce((sum, v) => sum + v[1], 0) / vertices.length;
+    const text =
+      frequency === 'percent'
+        ? `${+((100 * frequencies[i]) / total).toFixed(1)}%`
+        : `${+frequencies[i].toFixed(2)}`;
+
+    return [
+      svgNode(
+        'text',
+        { x, y, 'text-anchor': 'middle', 'dominant-baseline': 'middle', 'font-size': '10px' },
+        [],
+        text
+      ),
+    ];
+  });
+
+  return [...cells, ...labels];
+}
+
+/**
+ * Points attribute of the polygon joining ternary vertices
+ */
+function polygonPoints(vertices: TernaryVertex[], size: number): string {
+  return vertices
+    .map((v) => {
+      const [x, y] = ternaryToSvgCoords([v.p1, v.p2, v.p3], size);
+      return `${x},${y}`;
+    })
+    .join(' ');
+}
+
+/**
+ * Draw the triangle frame, axes and labels
+ */
+function triangleFrame(
+  size: number,
+  labels: [string, string, string],
+  center: TernaryPoint,
+  showCenter: boolean,
+  showLines: boolean,
+  labelPosition: 'corner' | 'edge' = 'corner',
+  gridValues: number[] = DEFAULT_TICKS
+): Omit<LegendLayers, 'circles'> {
+  const triangle: SvgNode[] = [];
+  const legend: SvgNode[] = [];
+
+  // Define triangle corners in ternary coordinates
+  // and convert to SVG coordinates
+  const corners = [
+    [1, 0, 0], // bottom left (p1)
+    [0, 1, 0], // top (p2)
+    [0, 0, 1], // bottom right (p3)
+  ] as TernaryPoint[];
+
+  const svgCorners = corners.map((p) => ternaryToSvgCoords(p, size));
+
+  // Create the triangle border
+  const points = svgCorners.map((p) => p.join(',')).join(' ');
+  triangle.push(
+    svgNode('polygon', {
+      points,
+      fill: 'none',
+      stroke: 'black',
+      'stroke-width': 1,
+    })
+  );
+
+  // Add axis names
+  if (labelPosition === 'edge') {
+    const labelPositions = [
+      [
+        (svgCorners[0][0] + svgCorners[1][0]) / 2 - 35,
+        (svgCorners[0][1] + svgCorners[1][1]) / 2 - 14,
+      ], // p1
+      [
+        (svgCorners[1][0] + svgCorners[2][0]) / 2 + 35,
+        (svgCorners[1][1] + svgCorners[2][1]) / 2 - 14,
+      ], // p2
+      [(svgCorners[0][0] + svgCorners[2][0]) / 2, (svgCorners[0][1] + svgCorners[2][1]) / 2 + 25], // p3
+    ];
+
+    const rotateValues = [-60, 60, 0];
+
+    labels.forEach((label, i) => {
+      legend.push(
+        svgNode(
+          'text',
+          {
+            x: labelPositions[i][0],
+            y: labelPositions[i][1],
+            'text-anchor': 'middle',
+            'dominant-baseline': 'middle',
+            transform: `rotate(${rotateValues[i]},${labelPositions[i][0]},${labelPositions[i][1]})`,
+          },
+          [],
+          label
+        )
+      );
+    });
+  } else {
+    // 'corner'
+    const labelPositions = [
+      [svgCorners[0][0], svgCorners[0][1] + 25], // p1
+      [svgCorners[1][0], svgCorners[1][1] - 15], // p2
+      [svgCorners[2][0], svgCorners[2][1] + 25], // p3
+    ];
+
+    labels.forEach((label, i) => {
+      legend.push(
+        svgNode(
+          'text',
+          {
+            x: labelPositions[i][0],
+            y: labelPositions[i][1],
+            'text-anchor': 'middle',
+          },
+          [],
+          label
+        )
+      );
+    });
+  }
+
+  // Add grid lines at the ticks of each axis
+  if (showLines) {
+    // Ends of the p1, p2 and p3 grid lines
+    const gridLines = (val: number) => [
+      [
+        [val, 0, 1 - val],
+        [val, 1 - val, 0],
+      ],
+      [
+        [0, val, 1 - val],
+        [1 - val, val, 0],
+      ],
+      [
+        [1 - val, 0, val],
+        [0, 1 - val, val],
+      ],
+    ];
+
+    [0, 1, 2].forEach((axis) => {
+      gridValues.forEach((val) => {
+        const line = gridLines(val)[axis].map((p) => ternaryToSvgCoords(p as TernaryPoint, size));
+
+        legend.push(
+          svgNode('line', {
+            x1: line[0][0],
+            y1: line[0][1],
+            x2: line[1][0],
+            y2: line[1][1],
+            stroke: '#aaa',
+            'stroke-width': 0.5,
+            opacity: 0.7,
+          })
+        );
+      });
+    });
+  }
+
+  // Show center point (+ extended lines from this center) if requested
+  if (showCenter) {
+    const [cx, cy] = ternaryToSvgCoords(center, size);
+
+    triangle.push(
+      svgNode('circle', {
+        cx,
+        cy,
+        r: 3,
+        fill: 'black',
+        stroke: 'white',
+      })
+    );
+
+    const p1Line = [
+      ternaryToSvgCoords([center[0], 0, 1 - center[0]], size),
+      ternaryToSvgCoords([center[0], 1 - center[0], 0], size),
+    ];
+
+    const p2Line = [
+      ternaryToSvgCoords([0, center[1], 1 - center[1]], size),
+      ternaryToSvgCoords([1 - center[1], center[1], 0], size),
+    ];
+
+    const p3Line = [
+      ternaryToSvgCoords([0, 1 - center[2], center[2]], size),
+      ternaryToSvgCoords([1 - center[2], 0, center[2]], size),
+    ];
+
+    [p1Line, p2Line, p3Line].forEach((line) => {
+      triangle.push(
+        svgNode('line', {
+          x1: line[0][0],
+          y1: line[0][1],
+          x2: line[1][0],
+          y2: line[1][1],
+          stroke: 'black',
+          'stroke-width': 0.5,
+          opacity: 0.5,
+        })
+      );
+    });
+  }
+
+  return { triangle, legend };
+}
+
+/**
+ * Values of the grid lines and ticks of the axes, given or dividing
+ * the axes in equal steps
+ */
+function tickValues(ticks: number[] | number): number[] {
+  if (Array.isArray(ticks)) {
+    if (ticks.some((value) => !(value >= 0 && value <= 1))) {
+      throw new Error('Tick values must be between 0 and 1');
+    }
+    return ticks;
+  }
+
+  if (!Number.isInteger(ticks) || ticks < 1) {
+    throw new Error('Number of tick steps must be a positive integer');
+  }
+  return Array.from({ length: ticks - 1 }, (_, i) => (i + 1) / ticks);
+}
+
+/**
+ * Default format of the ticks: a percentage, formatted for a locale
+ */
+function percentFormat(locale: string | string[]): (value: number) => string {
+  const format = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 });
+  return (value) => format.format(value);
+}
+
+/**
+ * End of the grid line of an axis at a value, on the edge holding the
+ * ticks of the axis (see TickDirection)
+ */
+function tickEnd(value: number, axis: number, direction: TickDirection): TernaryPoint {
+  const ends: TernaryPoint[] =
+    direction === 'clockwise'
+      ? [
+          [value, 0, 1 - value],
+          [1 - value, value, 0],
+          [0, 1 - value, value],
+        ]
+      : [
+          [value, 1 - value, 0],
+          [0, value, 1 - value],
+          [1 - value, 0, value],
+        ];
+  return ends[axis];
+}
+
+/**
+ * Direction of the ticks of each axis
+ */
+function tickDirections(
+  tickDirection: TickDirection | [TickDirection, TickDirection, TickDirection]
+): TickDirection[] {
+  return Array.isArray(tickDirection)
+    ? tickDirection
+    : [tickDirection, tickDirection, tickDirection];
+}
+
+/**
+ * Labels of the ticks of the three axes, outside of the edges holding them
+ */
+function tickLabels(
+  size: number,
+  values: number[],
+  format: (value: number, axis: number) => string,
+  tickDirection: TickDirection | [TickDirection, TickDirection, TickDirection]
+): SvgNode[] {
+  return tickDirections(tickDirection).flatMap((direction, axis) => {
+    // Part that is zero on the edge: p3 on the left edge, p1 on the right edge, p2 on the base
+    const edge = (axis + (direction === 'clockwise' ? 1 : 2)) % 3;
+
+    return values.map((value) => {
+      const [x, y] = ternaryToSvgCoords(tickEnd(value, axis, direction), size);
+      const position =
+        edge === 2
+          ? { x: x - 5, y, 'text-anchor': 'end' }
+          : edge === 0
+            ? { x: x + 5, y, 'text-anchor': 'start' }
+            : { x, y: y + 10, 'text-anchor': 'middle' };
+      return svgNode('text', { ...position, 'font-size': '10px' }, [], format(value, axis));
+    });
+  });
+}
+
+/**
+ * Circles of the data points, styled by the point options and bound to
+ * their point, index and record
+ */
+function dataPoints<T>(
+  data: TernaryPoint[],
+  size: number,
+  options: PointOptions<T>,
+  color: (p: TernaryPoint) => RGBColor | null,
+  records: T[]
+): SvgNode[] {
+  const {
+    pointColor = false,
+    pointWeight,
+    pointRadius = pointWeight === undefined ? DEFAULT_POINT_STYLE.r! : 8,
+    pointStroke,
+    pointStrokeWidth = 1,
+    pointOpacity = DEFAULT_POINT_STYLE.opacity,
+    pointTitle,
+  } = options;
+
+  // The area of the points is proportional to their weight
+  const weights = pointWeight === undefined ? null : readValues(records, pointWeight);
+  const maxWeight = weights ? weights.reduce((max, w) => (w > max ? w : max), 0) : 0;
+  const radius = (i: number) => {
+    if (!weights) return pointRadius;
+    return weights[i] > 0 && weights[i] < Infinity
+      ? pointRadius * Math.sqrt(weights[i] / maxWeight)
+      : 0;
+  };
+
+  // Invalid points are closed to null and are not plotted
+  const closed = CompositionUtils.close([...data]);
+  const circles: SvgNode[] = [];
+
+  closed.forEach((p, i) => {
+    const r = radius(i);
+    if (p && r > 0) {
+      const [x, y] = ternaryToSvgCoords(p, size);
+      const style: PointStyle = {
+        r,
+        fill: (pointColor && color(p)) || DEFAULT_POINT_STYLE.fill,
+        stroke: pointStroke,
+        strokeWidth: pointStroke === undefined ? undefined : pointStrokeWidth,
+        opacity: pointOpacity,
+      };
+
+      const title = pointTitle ? [svgNode('title', {}, [], pointTitle(records[i], i))] : [];
+      const circle = svgNode('circle', { cx: x, cy: y, ...pointAttributes(style) }, title);
+      circle.data = { point: p, id: i, datum: records[i], style } satisfies DataPoint;
+      circles.push(circle);
+    }
+  });
+
+  // Draw the smaller points over the larger ones
+  if (weights) {
+    circles.sort((a, b) => +b.attrs.r! - +a.attrs.r!);
+  }
+
+  return circles;
+}
+
+/**
+ * Attributes of the circle of a data point with a style (null for the
+ * attributes that are not set)
+ *
+ * @param style - Style of the data point
+ * @returns Attributes of the circle
+ */
+export function pointAttributes(style: PointStyle): Record<string, string | number | null> {
+  return {
+    r: style.r ?? null,
+    fill: style.fill ?? null,
+    stroke: style.stroke ?? null,
+    'stroke-width': style.strokeWidth ?? null,
+    opacity: style.opacity ?? null,
+  };
+}
+
+/**
+ * Shaded bins or contour lines of the density of the data points
+ */
+function densityBins<T>(
+  data: TernaryPoint[],
+  size: number,
+  options: Partial<VisualizationOptions> & PointOptions<T>,
+  records: T[]
+): SvgNode[] {
+  const {
+    density = 'mesh',
+    densityStyle = 'cells',
+    densityResolution = 10,
+    densityLevels = 5,
+    pointWeight,
+  } = options;
+  const weights = pointWeight === undefined ? undefined : readValues(records, pointWeight);
+  const grid =
+    density === 'hexagon'
+      ? TernaryDensity.hexagonDensity(data, densityResolution, weights)
+      : TernaryDensity.meshDensity(data, densityResolution, weights);
+
+  if (densityStyle === 'contours') {
+    const max = grid.samples.reduce((m, sample) => Math.max(m, sample.value), 0);
+    if (max === 0) return [];
+
+    const levels = Array.from(
+      { length: densityLevels },
+      (_, i) => (max * (i + 1)) / (densityLevels + 1)
+    );
+    return levels.flatMap((level) =>
+      TernaryDensity.densityContour(grid, level).map(([a, b]) => {
+        const [x1, y1] = ternaryToSvgCoords(a, size);
+        const [x2, y2] = ternaryToSvgCoords(b, size);
+        return svgNode('line', {
+          x1,
+          y1,
+          x2,
+          y2,
+          stroke: 'black',
+          'stroke-width': 1,
+          opacity: 0.8,
+        });
+      })
+    );
+  }
+
+  // Bins shaded from transparent (empty) to the densest bin
+  const max = grid.bins.reduce((m, bin) => Math.max(m, bin.value), 0);
+  return grid.bins
+    .filter((bin) => bin.value > 0)
+    .map((bin) =>
+      svgNode('polygon', {
+        points: bin.vertices.map((v) => ternaryToSvgCoords(v, size).join(',')).join(' '),
+        fill: 'black',
+        stroke: 'none',
+        opacity: (0.8 * bin.value) / max,
+      })
+    );
+}
+
+/**
+ * Style of a highlighted data point of TricoloreViz: enlarged,
+ * opaque and outlined in white
+ *
+ * @param style - Style of the data point
+ * @returns Style of the highlighted data point
+ */
+export function highlightedPointStyle(style: PointStyle): PointStyle {
+  return {
+    ...style,
+    r: (style.r ?? DEFAULT_POINT_STYLE.r!) + 2,
+    stroke: 'white',
+    strokeWidth: 1,
+    opacity: 1,
+  };
+}
+
+/**
+ * Outline of a highlighted cell of a discrete or sextant plot
+ *
+ * @param cell - Polygon of the cell
+ * @returns Outline of the cell
+ */
+export function cellOutline(cell: SvgNode): SvgNode {
+  return svgNode('polygon', {
+    points: cell.attrs.points,
+    fill: 'none',
+    stroke: 'black',
+    'stroke-width': 2,
+    'stroke-linejoin': 'round',
+  });
+}
+
+/**
+ * Crosshair and tooltip reading out a composition: lines from the
+ * composition to the ticks of each axis, and the shares of the three
+ * parts with their deviation from the center (in percentage points)
+ *
+ * @param size - Side of the square holding the triangle
+ * @param point - Composition to read out (closed)
+ * @param center - Center of the color scale
+ * @param labels - Labels of the three axes
+ * @param tickDirection - Direction of the ticks of the axes (default: 'counterclockwise')
+ * @returns Elements of the readout
+ */
+export function hoverReadout(
+  size: number,
+  point: TernaryPoint,
+  center: TernaryPoint,
+  labels: [string, string, string],
+  tickDirection: TickDirection | [TickDirection, TickDirection, TickDirection] = 'counterclockwise'
+): SvgNode[] {
+  const [x, y] = ternaryToSvgCoords(point, size);
+
+  // Ends of the lines on the axes, where the ticks are
+  const crosshair = tickDirections(tickDirection).map((direction, axis) => {
+    const [x2, y2] = ternaryToSvgCoords(tickEnd(point[axis], axis, direction), size);
+    return svgNode('line', {
+      x1: x,
+      y1: y,
+      x2,
+      y2,
+      stroke: '#333',
+      'stroke-width': 1,
+      'stroke-dasharray': '3,2',
+    });
+  });
+
+  const lines = point.map((p, i) => {
+    const deviation = (p - center[i]) * 100;
+    const sign = deviation >= 0 ? '+' : '−';
+    return `${labels[i]}: ${(p * 100).toFixed(1)}% (${sign}${Math.abs(deviation).toFixed(1)})`;
+  });
+
+  // Keep the tooltip inside the square of the triangle
+  // (the width of the text is estimated from its length)
+  const width = Math.max(...lines.map((line) => line.length)) * 6 + 12;
+  const height = lines.length * 14 + 8;
+  const left = x + 12 + width > size ? x - 12 - width : x + 12;
+  const top = Math.max(0, y - 12 - height);
+
+  const tooltip = svgNode('g', { transform: `translate(${left},${top})` }, [
+    svgNode('rect', {
+      width,
+      height,
+      rx: 3,
+      fill: 'white',
+      'fill-opacity': 0.9,
+      stroke: '#333',
+      'stroke-width': 0.5,
+    }),
+    ...lines.map((line, i) =>
+      svgNode('text', { x: 6, y: 16 + i * 14, 'font-size': '11px' }, [], line)
+    ),
+  ]);
+
+  return [
+    ...crosshair,
+    svgNode('circle', { cx: x, cy: y, r: 3, fill: 'none', stroke: '#333' }),
+    tooltip,
+  ];
+}
+
+/**
+ * Vertices of the region of the triangle where each part is within a range
+ * (the triangle clipped by the bounds of the ranges)
+ *
+ * @param ranges - Minimum and maximum of each part
+ * @returns Vertices of the region (empty if the ranges don't intersect)
+ */
+export function rangePolygon(ranges: [number, number][]): TernaryPoint[] {
+  const triangle: TernaryPoint[] = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ];
+  const lower = ranges.map((range) => range[0]) as TernaryPoint;
+  const upper = ranges.map((range) => range[1]) as TernaryPoint;
+  return TernaryGeometry.ternaryClip(triangle, lower, upper);
+}
+
+/**
+ * Shape showing a selected region of the triangle
+ *
+ * @param vertices - Vertices of the region, in SVG coordinates
+ * @returns Polygon of the region
+ */
+export function selectionShape(vertices: [number, number][]): SvgNode {
+  return svgNode('polygon', {
+    points: vertices.map((v) => v.join(',')).join(' '),
+    fill: 'black',
+    'fill-opacity': 0.08,
+    stroke: 'black',
+    'stroke-width': 1.5,
+    'stroke-dasharray': '4,3',
+  });
+}
@@ -0,0 +1,351 @@
+import { LegendImage, LegendPNGOptions, TernaryPoint } from '../types';
+import { ColorMapping } from '../core/colorMapping';
+import {
+  cellFrequencies,
+  fitLegend,
+  FittedLegend,
+  insidePolygon,
+  legendCell,
+  legendColor,
+  legendLayers,
+  svgToTernaryCoords,
+} from './legendLayout';
+import { SvgNode } from './svgNode';
+import { encodePNG } from './png';
+
+// Colors named in the layout of the plots
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+};
+
+/**
+ * Render a ternary plot (the legend of a map) as RGBA pixels, without
+ * the DOM or a canvas
+ *
+ * The color of each pixel of the triangle is computed from the composition
+ * at its center, and the frame, grid lines, center lines and data points
+ * are drawn (antialiased) from the same layout as TricoloreViz. The texts
+ * (labels, ticks, titles of the points and frequencies of the cells) are
+ * not drawn, they can be overlaid with renderLegendSVG.
+ *
+ * @param data - Array of ternary points, or of records
+ * @param options - Visualization options, with the type, size and resolution of the plot
+ *  (and accessors for records)
+ * @returns RGBA image of the plot (transparent outside of the triangle)
+ *
+ * @throws Error - If validation is 'strict' and data contains invalid ternary
+ *  points, or if the stroke of the points is not a hex color (or black or white)
+ */
+export function renderLegendRGBA<T = TernaryPoint>(
+  data: TernaryPoint[] | T[] = [],
+  options: LegendPNGOptions<T> = {}
+): LegendImage {
+  const { dpi = 96 } = options;
+  const plot = fitLegend(data, options);
+  const scale = dpi / 96;
+  const width = Math.round(plot.width * scale);
+  const height = Math.round(plot.height * scale);
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  colorField(plot, pixels, width, height, scale);
+  if (options.frequency === 'opacity') {
+    frequencyOpacity(plot, options, pixels, width, height, scale);
+  }
+
+  // Draw the other elements of the plot over the colored triangle
+  const layers = legendLayers(
+    plot.size,
+    [],
+    plot.points,
+    plot.scheme.center,
+    options,
+    legendColor(plot),
+    plot.records
+  );
+  const raster = { pixels, width, height, scale, dx: plot.margin.left, dy: plot.margin.top };
+  [...layers.triangle, ...layers.legend, ...layers.circles].forEach((node) =>
+    drawNode(raster, node)
+  );
+
+  return { width, height, data: pixels };
+}
+
+/**
+ * Render a ternary plot (the legend of a map) as a PNG image, without
+ * the DOM or a canvas (see renderLegendRGBA)
+ *
+ * @param data - Array of ternary points, or of records
+ * @param options - Visualization options, with the type, size and resolution of the plot
+ *  (and accessors for records)
+ * @returns Bytes of the PNG file
+ *
+ * @throws Error - If validation is 'strict' and data contains invalid ternary
+ *  points, or if the stroke of the points is not a hex color (or black or white)
+ */
+export function renderLegendPNG<T = TernaryPoint>(
+  data: TernaryPoint[] | T[] = [],
+  options: LegendPNGOptions<T> = {}
+): Uint8Array {
+  const { dpi = 96 } = options;
+  const image = renderLegendRGBA(data, options);
+  return encodePNG(image.data, image.width, image.height, dpi);
+}
+
+/**
+ * Color the pixels whose center is inside the triangle, row by row
+ */
+function colorField(
+  plot: FittedLegend,
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale: number
+): void {
+  const { size, margin } = plot;
+  const columns: [Float64Array, Float64Array, Float64Array] = [
+    new Float64Array(width),
+    new Float64Array(width),
+    new Float64Array(width),
+  ];
+
+  for (let y = 0; y < height; y++) {
+    // Compositions at the center of the pixels of the row (NaN outside of the triangle)
+    for (let x = 0; x < width; x++) {
+      const p = svgToTernaryCoords(
+        [(x + 0.5) / scale - margin.left, (y + 0.5) / scale - margin.top],
+        size
+      );
+      const inside = p[0] >= 0 && p[1] >= 0 && p[2] >= 0;
+      columns[0][x] = inside ? p[0] : NaN;
+      columns[1][x] = p[1];
+      columns[2][x] = p[2];
+    }
+
+    const row = pixels.subarray(y * width * 4, (y + 1) * width * 4);
+    if (plot.type === 'sextant') {
+      ColorMapping.colorMapSextantBuffer(columns, plot.scheme.center, plot.scheme.values, row);
+    } else {
+      const { center, breaks, hue, chroma, lightness, contrast, spread } = plot.scheme;
+      ColorMapping.colorMapTricoloreBuffer(
+        columns,
+        center,
+        plot.type === 'continuous' ? Infinity : breaks,
+        hue,
+        chroma,
+        lightness,
+        contrast,
+        spread,
+        plot.scheme.gamutMapping,
+        plot.scheme.colorSpace,
+        row
+      );
+    }
+  }
+}
+
+/**
+ * Scale the opacity of the pixels of the cells of a discrete or sextant
+ * plot by the frequency of the data points in their cell (see frequencyCells)
+ */
+function frequencyOpacity<T>(
+  plot: FittedLegend,
+  options: LegendPNGOptions<T>,
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale: number
+): void {
+  const { size, margin } = plot;
+  const cellOf = legendCell(plot);
+  if (!cellOf) return;
+
+  const count = plot.type === 'sextant' ? 6 : plot.scheme.breaks ** 2;
+  const frequencies = cellFrequencies(plot.points, cellOf, count, options, plot.records);
+  const max = Math.max(...frequencies);
+  if (max === 0) return;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = 4 * (y * width + x);
+      if (pixels[i + 3] === 0) continue;
+
+      const p = svgToTernaryCoords(
+        [(x + 0.5) / scale - margin.left, (y + 0.5) / scale - margin.top],
+        size
+      );
+      const cell = cellOf(p);
+      pixels[i + 3] = cell === null ? 0 : (pixels[i + 3] * frequencies[cell - 1]) / max;
+    }
+  }
+}
+
+/**
+ * RGBA pixels on which the elements of a plot are drawn, with the
+ * scale and offset from the coordinates of the plot to the pixels
+ */
+interface Raster {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+  scale: number;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Draw an element of the layout of a plot (texts are skipped)
+ */
+function drawNode(raster: Raster, node: SvgNode): void {
+  const { attrs } = node;
+  const { scale, dx, dy } = raster;
+  const opacity = attrs.opacity === undefined || attrs.opacity === null ? 1 : +attrs.opacity;
+  const fill = parseColor(attrs.fill);
+  const stroke = parseColor(attrs.stroke);
+  const strokeWidth =
+    (attrs['stroke-width'] === undefined || attrs['stroke-width'] === null
+      ? 1
+      : +attrs['stroke-width']) * scale;
+  const toPixels = (x: number, y: number): [number, number] => [(x + dx) * scale, (y + dy) * scale];
+
+  if (node.tag === 'line') {
+    const a = toPixels(+attrs.x1!, +attrs.y1!);
+    const b = toPixels(+attrs.x2!, +attrs.y2!);
+    if (stroke) {
+      paint(raster, stroke, opacity, boundingBox([a, b], strokeWidth), (x, y) =>
+        lineCoverage(x, y, a, b, strokeWidth)
+      );
+    }
+  } else if (node.tag === 'circle') {
+    const [cx, cy] = toPixels(+attrs.cx!, +attrs.cy!);
+    const r = +attrs.r! * scale;
+    const bounds = boundingBox([[cx, cy]], 2 * r + strokeWidth);
+    const distance = (x: number, y: number) => Math.hypot(x - cx, y - cy);
+    if (fill) {
+      paint(raster, fill, opacity, bounds, (x, y) => clamp(r + 0.5 - distance(x, y)));
+    }
+    if (stroke) {
+      paint(raster, stroke, opacity, bounds, (x, y) =>
+        clamp(strokeWidth / 2 + 0.5 - Math.abs(distance(x, y) - r))
+      );
+    }
+  } else if (node.tag === 'polygon') {
+    const vertices = String(attrs.points)
+      .trim()
+      .split(/\s+/)
+      .map((pair) => {
+        const [x, y] = pair.split(',').map(Number);
+        return toPixels(x, y);
+      });
+    const edges = vertices.map((v, i) => [v, vertices[(i + 1) % vertices.length]] as const);
+    if (fill) {
+      paint(raster, fill, opacity, boundingBox(vertices, 0), (x, y) =>
+        insidePolygon(x, y, vertices) ? 1 : 0
+      );
+    }
+    if (stroke) {
+      // Round joins: coverage of the distance to the closest edge
+      paint(raster, stroke, opacity, boundingBox(vertices, strokeWidth), (x, y) => {
+        let distance = Infinity;
+        for (const [a, b] of edges) {
+          distance = Math.min(distance, segmentDistance(x, y, a, b));
+        }
+        return clamp(strokeWidth / 2 + 0.5 - distance);
+      });
+    }
+  }
+}
+
+/**
+ * Blend a color over the pixels of a bounding box, weighted by
+ * the coverage of their center
+ */
+function paint(
+  raster: Raster,
+  color: [number, number, number],
+  opacity: number,
+  bounds: [number, number, number, number],
+  coverage: (x: number, y: number) => number
+): void {
+  const { pixels, width, height } = raster;
+  const x0 = Math.max(0, Math.floor(bounds[0]));
+  const y0 = Math.max(0, Math.floor(bounds[1]));
+  const x1 = Math.min(width - 1, Math.ceil(bounds[2]));
+  const y1 = Math.min(height - 1, Math.ceil(bounds[3]));
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const alpha = coverage(x + 0.5, y + 0.5) * opacity;
+      if (alpha <= 0) continue;
+
+      // Source-over compositing (non-premultiplied)
+      const i = 4 * (y * width + x);
+      const below = pixels[i + 3] / 255;
+      const out = alpha + below * (1 - alpha);
+      for (let c = 0; c < 3; c++) {
+        pixels[i + c] = (color[c] * alpha + pixels[i + c] * below * (1 - alpha)) / out;
+      }
+      pixels[i + 3] = out * 255;
+    }
+  }
+}
+
+/**
+ * Coverage of a pixel by a line with butt caps
+ */
+function lineCoverage(
+  x: number,
+  y: number,
+  a: [number, number],
+  b: [number, number],
+  width: number
+): number {
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  if (length === 0) return 0;
+  const ux = (b[0] - a[0]) / length;
+  const uy = (b[1] - a[1]) / length;
+  const along = (x - a[0]) * ux + (y - a[1]) * uy;
+  const across = Math.abs((x - a[0]) * uy - (y - a[1]) * ux);
+  return Math.min(clamp(width / 2 + 0.5 - across), clamp(Math.min(along, length - along) + 0.5));
+}
+
+/**
+ * Distance from a point to a segment
+ */
+function segmentDistance(x: number, y: number, a: [number, number], b: [number, number]): number {
+  const vx = b[0] - a[0];
+  const vy = b[1] - a[1];
+  const squared = vx * vx + vy * vy;
+  const t = squared > 0 ? clamp(((x - a[0]) * vx + (y - a[1]) * vy) / squared) : 0;
+  return Math.hypot(x - a[0] - t * vx, y - a[1] - t * vy);
+}
+
+/**
+ * Bounding box of points, expanded by a width
+ */
+function boundingBox(points: [number, number][], width: number): [number, number, number, number] {
+  const xs = points.map((p) => p[0]);
+  const ys = points.map((p) => p[1]);
+  const margin = width / 2 + 1;
+  return [
+    Math.min(...xs) - margin,
+    Math.min(...ys) - margin,
+    Math.max(...xs) + margin,
+    Math.max(...ys) + margin,
+  ];
+}
+
+/**
+ * Parse the color of a fill or a stroke (null for no color)
+ */
+function parseColor(value: string | number | null | undefined): [number, number, number] | null {
+  if (value === undefined || value === null || value === 'none') return null;
+  return NAMED_COLORS[String(value)] ?? ColorMapping.hexToRgb(String(value));
+}
+
+/**
+ * Clamp a value to [0, 1]
+ */
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
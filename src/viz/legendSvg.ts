@@ -0,0 +1,81 @@
+import { LegendSVGOptions, TernaryPoint } from '../types';
+import {
+  continuousMeshCells,
+  fitLegend,
+  frequencyCells,
+  legendCell,
+  legendColor,
+  legendLayers,
+  meshCells,
+  sextantCells,
+} from './legendLayout';
+import { svgNode, serializeSvgNode } from './svgNode';
+
+/**
+ * Render a ternary plot (the legend of a map) as a standalone SVG string,
+ * without the DOM (e.g. in Node.js or for server-side rendering)
+ *
+ * The plot is drawn by the same code as TricoloreViz. The colored triangle
+ * of a continuous plot is drawn with vector rendering (see the resolution option).
+ *
+ * @param data - Array of ternary points, or of records
+ * @param options - Visualization options, with the type and size of the plot
+ *  (and accessors for records)
+ * @returns SVG markup of the plot
+ *
+ * @throws Error - If validation is 'strict' and data contains invalid ternary points
+ */
+export function renderLegendSVG<T = TernaryPoint>(
+  data: TernaryPoint[] | T[] = [],
+  options: LegendSVGOptions<T> = {}
+): string {
+  const { resolution = 40 } = options;
+  const legend = fitLegend(data, options);
+  const { scheme, size, width, height, margin } = legend;
+
+  const field =
+    legend.type === 'sextant'
+      ? sextantCells(size, legend.scheme.center, legend.scheme.values)
+      : (legend.type === 'continuous' ? continuousMeshCells : meshCells)(
+          size,
+          legend.type === 'continuous' ? resolution : legend.scheme.breaks,
+          legend.scheme.center,
+          legend.scheme.hue,
+          legend.scheme.chroma,
+          legend.scheme.lightness,
+          legend.scheme.contrast,
+          legend.scheme.spread,
+          legend.scheme.gamutMapping,
+          legend.scheme.colorSpace
+        );
+
+  const cellOf = legendCell(legend);
+  const layers = legendLayers(
+    size,
+    cellOf ? frequencyCells(field, cellOf, legend.points, options, legend.records) : field,
+    legend.points,
+    scheme.center,
+    options,
+    legendColor(legend),
+    legend.records
+  );
+  const transform = `translate(${margin.left},${margin.top})`;
+
+  return serializeSvgNode(
+    svgNode(
+      'svg',
+      {
+        xmlns: 'http://www.w3.org/2000/svg',
+        width,
+        height,
+        viewBox: `0 0 ${width} ${height}`,
+        'font-family': 'sans-serif',
+      },
+      [
+        svgNode('g', { transform }, layers.triangle),
+        svgNode('g', { transform }, layers.legend),
+        svgNode('g', { transform }, layers.circles),
+      ]
+    )
+  );
+}
@@ -0,0 +1,349 @@
+/**
+ * Encode RGBA pixels as a PNG image, without native code or canvas
+ *
+ * Scanlines are filtered with the filter giving the smallest sum of
+ * absolute differences, then compressed with DEFLATE (fixed Huffman codes).
+ *
+ * @param pixels - RGBA bytes, row by row from the top left corner
+ * @param width - Width of the image in pixels
+ * @param height - Height of the image in pixels
+ * @param dpi - Resolution of the image, in dots per inch (stored in the pHYs chunk)
+ * @returns Bytes of the PNG file
+ *
+ * @throws Error - If the number of pixels doesn't match the size of the image
+ */
+export function encodePNG(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number,
+  dpi: number = 96
+): Uint8Array {
+  if (pixels.length !== width * height * 4) {
+    throw new Error(
+      `Expected ${width * height * 4} bytes for a ${width}x${height} image, got ${pixels.length}`
+    );
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, deflate, adaptive filtering, no interlace
+
+  const density = new Uint8Array(9);
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  new DataView(density.buffer).setUint32(0, pixelsPerMeter);
+  new DataView(density.buffer).setUint32(4, pixelsPerMeter);
+  density[8] = 1; // unit: meter
+
+  const chunks = [
+    chunk('IHDR', header),
+    chunk('pHYs', density),
+    chunk('IDAT', zlib(filterScanlines(pixels, width, height))),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+
+  const signature = [137, 80, 78, 71, 13, 10, 26, 10];
+  const png = new Uint8Array(signature.length + chunks.reduce((n, c) => n + c.length, 0));
+  png.set(signature);
+  let offset = signature.length;
+  chunks.forEach((c) => {
+    png.set(c, offset);
+    offset += c.length;
+  });
+  return png;
+}
+
+/**
+ * Filter each scanline with the filter (None, Sub, Up, Average or Paeth)
+ * that minimizes the sum of the absolute values of the filtered bytes
+ */
+function filterScanlines(
+  pixels: Uint8Array | Uint8ClampedArray,
+  width: number,
+  height: number
+): Uint8Array {
+  const stride = width * 4;
+  const out = new Uint8Array(height * (stride + 1));
+  const candidates = [0, 1, 2, 3, 4].map(() => new Uint8Array(stride));
+  const zero = new Uint8Array(stride);
+
+  for (let y = 0; y < height; y++) {
+    const line = pixels.subarray(y * stride, (y + 1) * stride);
+    const above = y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : zero;
+
+    let best = 0;
+    let bestScore = Infinity;
+    candidates.forEach((filtered, type) => {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const a = i >= 4 ? line[i - 4] : 0;
+        const b = above[i];
+        const c = i >= 4 ? above[i - 4] : 0;
+        let predictor = 0;
+        if (type === 1) predictor = a;
+        else if (type === 2) predictor = b;
+        else if (type === 3) predictor = (a + b) >> 1;
+        else if (type === 4) predictor = paeth(a, b, c);
+        const v = (line[i] - predictor) & 0xff;
+        filtered[i] = v;
+        score += v < 128 ? v : 256 - v;
+      }
+      if (score < bestScore) {
+        best = type;
+        bestScore = score;
+      }
+    });
+
+    out[y * (stride + 1)] = best;
+    out.set(candidates[best], y * (stride + 1) + 1);
+  }
+
+  return out;
+}
+
+/**
+ * Paeth predictor of the PNG specification
+ */
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Chunk of a PNG file: length, type, data and CRC of the type and data
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    out[4 + i] = type.charCodeAt(i);
+  }
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+}
+
+// Table of the CRC of the bytes (created on first use)
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 of the PNG specification
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Adler-32 checksum of the zlib format
+ */
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Base values and numbers of extra bits of the length and distance codes of DEFLATE
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+  163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+  3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+
+// Parameters of the search of repeated strings
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 64;
+
+/**
+ * Compress bytes in the zlib format, as a single DEFLATE block with fixed
+ * Huffman codes and repeated strings found with hash chains
+ */
+function zlib(bytes: Uint8Array): Uint8Array {
+  const out = new BitWriter();
+  out.bits(0x78, 8);
+  out.bits(0x01, 8);
+
+  // Final block, fixed Huffman codes
+  out.bits(1, 1);
+  out.bits(1, 2);
+
+  // Last position of each hash of 3 bytes, and previous position with the same hash
+  const head = new Int32Array(1 << 15).fill(-1);
+  const prev = new Int32Array(WINDOW_SIZE);
+  const hash = (i: number) => ((bytes[i] << 10) ^ (bytes[i + 1] << 5) ^ bytes[i + 2]) & 0x7fff;
+  const insert = (i: number) => {
+    if (i + MIN_MATCH > bytes.length) return;
+    const h = hash(i);
+    prev[i % WINDOW_SIZE] = head[h];
+    head[h] = i;
+  };
+
+  let i = 0;
+  while (i < bytes.length) {
+    // Find the longest match in the window
+    let length = 0;
+    let distance = 0;
+    if (i + MIN_MATCH <= bytes.length) {
+      const max = Math.min(MAX_MATCH, bytes.length - i);
+      let candidate = head[hash(i)];
+      for (
+        let chain = 0;
+        candidate >= 0 && i - candidate <= WINDOW_SIZE && chain < MAX_CHAIN;
+        chain++
+      ) {
+        let n = 0;
+        while (n < max && bytes[candidate + n] === bytes[i + n]) n++;
+        if (n > length) {
+          length = n;
+          distance = i - candidate;
+          if (n === max) break;
+        }
+        const next = prev[candidate % WINDOW_SIZE];
+        if (next >= candidate) break;
+        candidate = next;
+      }
+    }
+
+    if (length >= MIN_MATCH) {
+      out.length(length);
+      out.distance(distance);
+      for (let j = 0; j < length; j++) insert(i + j);
+      i += length;
+    } else {
+      out.literal(bytes[i]);
+      insert(i);
+      i++;
+    }
+  }
+
+  // End of block, then checksum of the uncompressed data (big-endian)
+  out.literal(256);
+  out.flush();
+  const checksum = adler32(bytes);
+  [24, 16, 8, 0].forEach((shift) => out.bits((checksum >>> shift) & 0xff, 8));
+  return out.bytes();
+}
+
+/**
+ * Writer of the bit stream of DEFLATE (least significant bits first)
+ */
+class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private size = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  /**
+   * Write a value on n bits, least significant bit first
+   */
+  bits(value: number, n: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += n;
+    while (this.bitCount >= 8) {
+      this.byte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  /**
+   * Write a Huffman code of n bits, most significant bit first
+   */
+  code(value: number, n: number): void {
+    let reversed = 0;
+    for (let i = 0; i < n; i++) {
+      reversed = (reversed << 1) | ((value >> i) & 1);
+    }
+    this.bits(reversed, n);
+  }
+
+  /**
+   * Write a literal byte (or the end of block, 256) with its fixed Huffman code
+   */
+  literal(value: number): void {
+    if (value < 144) this.code(0x30 + value, 8);
+    else if (value < 256) this.code(0x190 + value - 144, 9);
+    else if (value < 280) this.code(value - 256, 7);
+    else this.code(0xc0 + value - 280, 8);
+  }
+
+  /**
+   * Write the length of a repeated string
+   */
+  length(length: number): void {
+    let code = LENGTH_BASE.length - 1;
+    while (LENGTH_BASE[code] > length) code--;
+    this.literal(257 + code);
+    this.bits(length - LENGTH_BASE[code], LENGTH_EXTRA[code]);
+  }
+
+  /**
+   * Write the distance of a repeated string
+   */
+  distance(distance: number): void {
+    let code = DISTANCE_BASE.length - 1;
+    while (DISTANCE_BASE[code] > distance) code--;
+    this.code(code, 5);
+    this.bits(distance - DISTANCE_BASE[code], DISTANCE_EXTRA[code]);
+  }
+
+  /**
+   * Write the remaining bits, padded to a byte
+   */
+  flush(): void {
+    if (this.bitCount > 0) {
+      this.bits(0, 8 - this.bitCount);
+    }
+  }
+
+  /**
+   * Bytes written so far
+   */
+  bytes(): Uint8Array {
+    return this.buffer.slice(0, this.size);
+  }
+
+  private byte(value: number): void {
+    if (this.size === this.buffer.length) {
+      const buffer = new Uint8Array(this.buffer.length * 2);
+      buffer.set(this.buffer);
+      this.buffer = buffer;
+    }
+    this.buffer[this.size++] = value;
+  }
+}
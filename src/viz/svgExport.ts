@@ -0,0 +1,129 @@
+// Text properties that can come from the page stylesheets, inlined in exported SVGs
+const TEXT_STYLES = [
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'font-variant',
+  'font-stretch',
+  'font-kerning',
+  'font-feature-settings',
+  'font-variation-settings',
+  'letter-spacing',
+  'word-spacing',
+  'text-decoration',
+  'text-transform',
+  'text-anchor',
+  'dominant-baseline',
+  'direction',
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'paint-order',
+  'visibility',
+];
+
+/**
+ * Serialize a live SVG element to a standalone SVG document: the namespaces
+ * are declared, the computed text properties (font, spacing, decoration,
+ * alignment, fill and stroke) are inlined, images are referenced with both href and xlink:href
+ * (their data URLs are kept as is), and interactive elements are removed
+ *
+ * @param svg - SVG element to serialize
+ * @returns SVG markup of the element
+ */
+export function serializeSvgElement(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink');
+
+  // The clone is not in the document: read the computed styles from the original
+  const texts = svg.querySelectorAll('text');
+  clone.querySelectorAll('text').forEach((text, i) => {
+    const computed = getComputedStyle(texts[i]);
+    const style = TEXT_STYLES.map((name) => [name, computed.getPropertyValue(name)])
+      .filter(([, value]) => value !== '')
+      .map(([name, value]) => `${name}:${value}`)
+      .concat(text.getAttribute('style') ?? [])
+      .join(';');
+    text.setAttribute('style', style);
+  });
+
+  clone.querySelectorAll('image').forEach((image) => {
+    const href = image.getAttribute('href');
+    if (href) {
+      image.setAttributeNS('http://www.w3.org/1999/xlink', 'xlink:href', href);
+    }
+  });
+
+  // Interactive elements (e.g. the hover readout) are not exported
+  clone.querySelectorAll('[data-export="false"]').forEach((element) => element.remove());
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/**
+ * Render an SVG document as a PNG image, with the browser
+ *
+ * @param markup - SVG markup of the document
+ * @param width - Width of the document, in CSS pixels
+ * @param height - Height of the document, in CSS pixels
+ * @param pixelRatio - Number of image pixels per CSS pixel
+ * @returns PNG image
+ *
+ * @throws Error - If the browser can't render the document
+ */
+export function rasterizeSvg(
+  markup: string,
+  width: number,
+  height: number,
+  pixelRatio: number
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not render the visualization as PNG: no canvas context'));
+        return;
+      }
+
+      ctx.scale(pixelRatio, pixelRatio);
+      ctx.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Could not render the visualization as PNG'));
+        }
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render the visualization as PNG'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+}
+
+/**
+ * Save a file with the browser
+ *
+ * @param blob - Content of the file
+ * @param filename - Name of the file
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Let the browser start the download before releasing the file
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
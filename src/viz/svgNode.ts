@@ -0,0 +1,76 @@
+/**
+ * SVG element described without the DOM, so that the same drawing code can
+ * either create live elements in the browser or be serialized to a string
+ */
+export interface SvgNode {
+  tag: string;
+  attrs: Record<string, string | number | null>;
+  children: SvgNode[];
+  /** Text content of the element */
+  text?: string;
+  /** Data bound to the element (not serialized) */
+  data?: unknown;
+}
+
+/**
+ * Helper to describe an SVG element with a given tag and attributes
+ */
+export function svgNode(
+  tag: string,
+  attrs: Record<string, string | number | null> = {},
+  children: SvgNode[] = [],
+  text?: string
+): SvgNode {
+  return { tag, attrs, children, text };
+}
+
+/**
+ * Create the live SVG element (and its children) described by a node,
+ * attaching its data as a property (replaces d3's .datum())
+ */
+export function toSvgElement(node: SvgNode): SVGElement {
+  const el = document.createElementNS('http://www.w3.org/2000/svg', node.tag);
+  for (const [key, value] of Object.entries(node.attrs)) {
+    if (value !== null) {
+      el.setAttribute(key, String(value));
+    }
+  }
+  if (node.text !== undefined) {
+    el.textContent = node.text;
+  }
+  if (node.data !== undefined) {
+    (el as SVGElement & { __data__?: unknown }).__data__ = node.data;
+  }
+  node.children.forEach((child) => el.appendChild(toSvgElement(child)));
+  return el;
+}
+
+/**
+ * Serialize a node (and its children) to SVG markup
+ */
+export function serializeSvgNode(node: SvgNode): string {
+  const attrs = Object.entries(node.attrs)
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join('');
+
+  if (node.text === undefined && node.children.length === 0) {
+    return `<${node.tag}${attrs}/>`;
+  }
+
+  const content =
+    (node.text !== undefined ? escapeXml(node.text) : '') +
+    node.children.map(serializeSvgNode).join('');
+  return `<${node.tag}${attrs}>${content}</${node.tag}>`;
+}
+
+/**
+ * Escape the characters that have a meaning in XML text and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
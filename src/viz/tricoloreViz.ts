@@ -1,56 +1,86 @@
-import { TernaryPoint, VisualizationOptions } from '../types';
-import { TernaryGeometry } from '../core/ternaryGeometry';
+import {
+  ColorSpace,
+  GamutMapping,
+  Margin,
+  PlotOptions,
+  PointStyleFunction,
+  RGBColor,
+  TernaryPoint,
+  TernarySelection,
+  TickDirection,
+  TricoloreVizEvents,
+  ValidationIssue,
+  VisualizationOptions,
+} from '../types';
 import { ColorMapping } from '../core/colorMapping';
 import { CompositionUtils } from '../core/compositionUtils';
+import { fitTricoloreOptions, fitSextantOptions } from '../core/options';
+import { TernaryGeometry } from '../core/ternaryGeometry';
+import { prepareCompositions } from '../core/preprocessing';
+import { compositions } from '../core/accessors';
+import { continuousLegendPixels, LegendRenderer } from './continuousLegend';
+import {
+  cellOutline,
+  continuousMeshCells,
+  DataPoint,
+  DEFAULT_MARGIN,
+  frequencyCells,
+  highlightedPointStyle,
+  hoverReadout,
+  insidePolygon,
+  LegendLayers,
+  legendLayers,
+  meshCells,
+  plotSize,
+  pointAttributes,
+  rangePolygon,
+  selectionShape,
+  sextantCells,
+  svgToTernaryCoords,
+  ternaryToSvgCoords,
+} from './legendLayout';
+import { SvgNode, svgNode, toSvgElement } from './svgNode';
+import { downloadBlob, rasterizeSvg, serializeSvgElement } from './svgExport';
 
 /**
- * Groups an array of items into a nested Map based on one or more key functions.
- * Mimics the behavior of d3.group.
- *
- * @param data - The flat array of items to group
- * @param keys - One or more accessor functions that return the grouping key for each item
- * @returns A nested Map where each level corresponds to one key function
+ * Current plot of a TricoloreViz, used by the interactions
  */
-function group<T>(data: T[], ...keys: ((item: T) => unknown)[]): Map<unknown, unknown> {
-  // Base case: no keys provided, return the data as-is
-  if (keys.length === 0) return new Map();
-
-  const [firstKey, ...restKeys] = keys;
-  const map = new Map<unknown, unknown>();
-
-  // Group items by the first key
-  for (const item of data) {
-    const k = firstKey(item);
-    if (!map.has(k)) map.set(k, []);
-    (map.get(k) as T[]).push(item);
-  }
-
-  // Recursively group by remaining keys
-  if (restKeys.length > 0) {
-    for (const [k, values] of map) {
-      map.set(k, group(values as T[], ...restKeys));
-    }
-  }
-
-  return map;
+interface PlotState {
+  /** Side of the square holding the triangle */
+  size: number;
+  center: TernaryPoint;
+  labels: [string, string, string];
+  tickDirection: TickDirection | [TickDirection, TickDirection, TickDirection];
+  hover: boolean;
+  brush: 'lasso' | 'ranges' | 'none';
+  /** Color of a composition on the color scale of the plot */
+  color: (p: TernaryPoint) => RGBColor | null;
+  /** Valid data points (closed), with their index */
+  points: Pick<DataPoint, 'point' | 'id'>[];
+  /** Polygons of the cells of a discrete or sextant plot, ordered by id */
+  cells: SvgNode[];
+  /** Id of the cell holding a composition (null without cells) */
+  cellOf: ((p: TernaryPoint) => number | null) | null;
 }
 
 /**
- * Helper to create an SVG element with a given tag and attributes
+ * Drag of a brush over the triangle, in the coordinates of the triangle
  */
-function createSvgElement(
-  tag: string,
-  attrs: Record<string, string | number | null> = {}
-): SVGElement {
-  const el = document.createElementNS('http://www.w3.org/2000/svg', tag);
-  for (const [key, value] of Object.entries(attrs)) {
-    if (value !== null) {
-      el.setAttribute(key, String(value));
-    }
-  }
-  return el;
+interface Drag {
+  start: [number, number];
+  path: [number, number][];
 }
 
+// Distance under which a drag is a click, in pixels
+const CLICK_DISTANCE = 3;
+
+/**
+ * Listeners of the events of a TricoloreViz
+ */
+type Listeners = {
+  [K in keyof TricoloreVizEvents]: Set<(value: TricoloreVizEvents[K]) => void>;
+};
+
 /**
  * SVG visualization for Tricolore
  */
@@ -58,13 +88,23 @@ export class TricoloreViz {
   private container: Element;
   private readonly width: number;
   private readonly height: number;
-  private margin: { top: number; right: number; bottom: number; left: number };
+  private margin: Margin;
   private svg: SVGSVGElement;
   private triangle: SVGGElement;
   private legend: SVGGElement;
+  private highlightLayer: SVGGElement;
   private circles: SVGGElement;
+  private brushLayer: SVGGElement;
+  private overlay: SVGGElement;
+  private plot: PlotState | null = null;
+  private drag: Drag | null = null;
+  private highlighted = new Set<number>();
+  private pointStyle: PointStyleFunction<unknown> | null = null;
+  private listeners: Listeners = { hover: new Set(), select: new Set() };
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
+  private legendRenderer = new LegendRenderer();
+  private rendered: Promise<unknown> = Promise.resolve();
 
   /**
    * Create a TricoloreViz instance
@@ -80,12 +120,7 @@ export class TricoloreViz {
     selector: string | Element,
     width: number = 650,
     height: number = 520,
-    margin: { top: number; right: number; bottom: number; left: number } = {
-      top: 20,
-      right: 60,
-      bottom: 50,
-      left: 60,
-    }
+    margin: Margin = DEFAULT_MARGIN
   ) {
     const container = typeof selector === 'string' ? document.querySelector(selector) : selector;
 
@@ -99,586 +134,727 @@ export class TricoloreViz {
     this.margin = margin;
 
     // Create SVG container
-    this.svg = createSvgElement('svg', { width, height }) as SVGSVGElement;
+    this.svg = toSvgElement(svgNode('svg', { width, height })) as SVGSVGElement;
     this.container.appendChild(this.svg);
 
+    const transform = `translate(${margin.left},${margin.top})`;
+
     // Create group for the triangle
-    this.triangle = createSvgElement('g', {
-      transform: `translate(${margin.left},${margin.top})`,
-    }) as SVGGElement;
+    this.triangle = toSvgElement(svgNode('g', { transform })) as SVGGElement;
     this.svg.appendChild(this.triangle);
 
     // Create group for legending elements (axis names and ticks)
-    this.legend = createSvgElement('g', {
-      transform: `translate(${margin.left},${margin.top})`,
-    }) as SVGGElement;
+    this.legend = toSvgElement(svgNode('g', { transform })) as SVGGElement;
     this.svg.appendChild(this.legend);
 
+    // Create group for the outlines of the highlighted cells
+    this.highlightLayer = toSvgElement(
+      svgNode('g', { transform, 'pointer-events': 'none' })
+    ) as SVGGElement;
+    this.svg.appendChild(this.highlightLayer);
+
     // Create group for data points
-    this.circles = createSvgElement('g', {
-      transform: `translate(${margin.left},${margin.top})`,
-    }) as SVGGElement;
+    this.circles = toSvgElement(svgNode('g', { transform })) as SVGGElement;
     this.svg.appendChild(this.circles);
+
+    // Create group for the selected region (not exported)
+    this.brushLayer = toSvgElement(
+      svgNode('g', { transform, 'pointer-events': 'none', 'data-export': 'false' })
+    ) as SVGGElement;
+    this.svg.appendChild(this.brushLayer);
+
+    // Create group for the hover readout (not exported)
+    this.overlay = toSvgElement(
+      svgNode('g', { transform, 'pointer-events': 'none', 'data-export': 'false' })
+    ) as SVGGElement;
+    this.svg.appendChild(this.overlay);
+
+    // Track the pointer over the triangle
+    this.svg.addEventListener('pointerdown', (event) => this.pointerDown(event));
+    this.svg.addEventListener('pointermove', (event) => this.pointerMove(event));
+    this.svg.addEventListener('pointerup', (event) => this.pointerUp(event));
+    this.svg.addEventListener('pointerleave', () => this.pointerLeave());
   }
 
   /**
-   * Create a continuous ternary plot using canvas
+   * Add a listener of an event
    *
-   * @param data - Array of ternary points
-   * @param options - Visualization options
-   *
-   * @throws Error - If showData is true and data contains invalid ternary points
+   * @param type - Type of the event
+   * @param listener - Function called with the value of the event
+   * @returns The visualization
    */
-  createContinuousPlot(
-    data: TernaryPoint[] = [],
-    options: Partial<VisualizationOptions> = {}
-  ): void {
-    const {
-      center = [1 / 3, 1 / 3, 1 / 3],
-      hue = 80,
-      chroma = 140,
-      lightness = 80,
-      contrast = 0.4,
-      spread = 1,
-      showData = true,
-      showCenter = true,
-      showLines = true,
-      labels = ['p₁', 'p₂', 'p₃'],
-      labelPosition = 'corner',
-    } = options;
-
-    const plotWidth = this.width - this.margin.left - this.margin.right;
-    const plotHeight = this.height - this.margin.top - this.margin.bottom;
-    const size = Math.min(plotWidth, plotHeight);
-
-    // Remove any existing canvas
-    if (this.canvas) {
-      this.canvas.remove();
-    }
-
-    // Clear previous contents
-    this.triangle.innerHTML = '';
-    this.legend.innerHTML = '';
-    this.circles.innerHTML = '';
-
-    // Create canvas for continuous color rendering
-    this.canvas = document.createElement('canvas');
-    this.canvas.width = size;
-    this.canvas.height = size;
-    this.ctx = this.canvas.getContext('2d');
+  on<K extends keyof TricoloreVizEvents>(
+    type: K,
+    listener: (value: TricoloreVizEvents[K]) => void
+  ): this {
+    this.listeners[type].add(listener);
+    return this;
+  }
 
-    if (!this.ctx) return;
+  /**
+   * Remove a listener of an event
+   *
+   * @param type - Type of the event
+   * @param listener - Function added with on
+   * @returns The visualization
+   */
+  off<K extends keyof TricoloreVizEvents>(
+    type: K,
+    listener: (value: TricoloreVizEvents[K]) => void
+  ): this {
+    this.listeners[type].delete(listener);
+    return this;
+  }
 
-    // Draw the colored triangle on canvas
-    this.drawContinuousTriangle(size, center, hue, chroma, lightness, contrast, spread);
+  /**
+   * Remove the selection of data points, and emit a select event with null
+   * (if points were selected)
+   */
+  clearSelection(): void {
+    this.drag = null;
+    if (this.brushLayer.childNodes.length === 0) return;
+    this.brushLayer.innerHTML = '';
+    this.emit('select', null);
+  }
 
-    // Position canvas
-    const image = createSvgElement('image', {
-      x: 0,
-      y: 0,
-      width: size,
-      height: size,
-      href: this.canvas.toDataURL(),
+  /**
+   * Highlight data points, and outline the cells of a discrete or sextant
+   * plot holding them (replaces the previous highlight)
+   *
+   * @param ids - Indices of the points in the data of the plot
+   */
+  highlight(ids: number[]): void {
+    this.highlighted = new Set(ids);
+    this.stylePoints();
+
+    this.highlightLayer.innerHTML = '';
+    const { plot } = this;
+    if (!plot || !plot.cellOf) return;
+
+    const cells = new Set(
+      plot.points
+        .filter(({ id }) => this.highlighted.has(id))
+        .map(({ point }) => plot.cellOf!(point))
+    );
+    plot.cells.forEach((cell, i) => {
+      if (cells.has(i + 1)) this.highlightLayer.appendChild(toSvgElement(cellOutline(cell)));
     });
-    this.triangle.appendChild(image);
+  }
 
-    // Add triangle border and axes using SVG
-    this.drawTriangleFrame(size, labels, center, showCenter, showLines, labelPosition);
+  /**
+   * Remove the highlight of the data points and cells
+   */
+  clearHighlight(): void {
+    this.highlight([]);
+  }
 
-    // Add data points if requested
-    if (showData && data.length > 0) {
-      this.addDataPoints(data, size);
-    }
+  /**
+   * Set the style of the data points, for the current and the next plots
+   *
+   * @param style - Function returning the style of each point, overriding
+   *  the style of the point options (null to restore it)
+   */
+  setPointStyle<T = TernaryPoint>(style: PointStyleFunction<T> | null): void {
+    this.pointStyle = style as PointStyleFunction<unknown> | null;
+    this.stylePoints();
   }
 
   /**
-   * Create a discrete ternary plot using SVG polygons
+   * Create a continuous ternary plot using canvas
+   *
+   * The colored triangle is rendered on a canvas at the density of the screen
+   * (see the pixelRatio option), or drawn as a fine mesh of SVG polygons with
+   * the vector rendering option.
+   *
+   * With the worker option, the colored triangle is rendered in a web worker
+   * (or synchronously if web workers are not available) and a Promise is
+   * returned; starting a new plot cancels the rendering of the previous one.
    *
-   * @param data - Array of ternary points
-   * @param options - Visualization options
+   * @param data - Array of ternary points, or of records
+   * @param options - Visualization options, with the style of the data points
+   *  (and accessors for records)
    *
-   * @throws Error - If showData is true and data contains invalid ternary points
+   * @returns Invalid ternary points found in the data
+   *  (a Promise resolved once the triangle is drawn with the worker option)
+   *
+   * @throws Error - If validation is 'strict' and data contains invalid ternary points
+   *  (the Promise is rejected with the worker option)
    */
-  createDiscretePlot(data: TernaryPoint[] = [], options: Partial<VisualizationOptions> = {}): void {
-    const {
-      center = [1 / 3, 1 / 3, 1 / 3],
-      breaks = 4,
-      hue = 80,
-      chroma = 140,
-      lightness = 80,
-      contrast = 0.4,
-      spread = 1,
-      showData = true,
-      showCenter = true,
-      showLines = true,
-      labels = ['p₁', 'p₂', 'p₃'],
-      labelPosition = 'corner',
-    } = options;
-
-    const plotWidth = this.width - this.margin.left - this.margin.right;
-    const plotHeight = this.height - this.margin.top - this.margin.bottom;
-    const size = Math.min(plotWidth, plotHeight);
-
-    // Clear previous contents
-    this.triangle.innerHTML = '';
-    this.legend.innerHTML = '';
-    this.circles.innerHTML = '';
+  createContinuousPlot<T = TernaryPoint>(
+    data?: TernaryPoint[] | T[],
+    options?: PlotOptions<T> & { worker?: false }
+  ): ValidationIssue[];
+  createContinuousPlot<T = TernaryPoint>(
+    data: TernaryPoint[] | T[],
+    options: PlotOptions<T> & { worker: true }
+  ): Promise<ValidationIssue[]>;
+  createContinuousPlot<T = TernaryPoint>(
+    data?: TernaryPoint[] | T[],
+    options?: PlotOptions<T>
+  ): ValidationIssue[] | Promise<ValidationIssue[]>;
+  createContinuousPlot<T>(
+    data: TernaryPoint[] | T[] = [],
+    options: PlotOptions<T> = {}
+  ): ValidationIssue[] | Promise<ValidationIssue[]> {
+    if (!options.worker) {
+      return this.continuousPlot(data, options);
+    }
 
-    // Generate mesh centroids and vertices
-    const centroids = TernaryGeometry.ternaryMeshCentroids(breaks);
-    const vertices = TernaryGeometry.ternaryMeshVertices(centroids);
+    // Errors reject the returned Promise with the worker option
+    return new Promise((resolve) => resolve(this.continuousPlot(data, options)));
+  }
 
-    // Calculate colors for each centroid
-    const centroidPoints = centroids.map((c) => [c.p1, c.p2, c.p3] as TernaryPoint);
-    const colors = ColorMapping.colorMapTricolore(
-      centroidPoints,
+  /**
+   * Create a discrete ternary plot using SVG polygons
+   *
+   * @param data - Array of ternary points, or of records
+   * @param options - Visualization options, with the style of the data points
+   *  (and accessors for records)
+   *
+   * @returns Invalid ternary points found in the data
+   *
+   * @throws Error - If validation is 'strict' and data contains invalid ternary points
+   */
+  createDiscretePlot<T = TernaryPoint>(
+    data: TernaryPoint[] | T[] = [],
+    options: PlotOptions<T> = {}
+  ): ValidationIssue[] {
+    const { points, issues } = prepareCompositions(compositions(data, options), options);
+    const { center, breaks, hue, chroma, lightness, contrast, spread, gamutMapping, colorSpace } =
+      fitTricoloreOptions(options, points);
+    const size = plotSize(this.width, this.height, this.margin);
+
+    // Create a polygon for each cell of the mesh, then draw
+    // triangle border, axes and data points
+    const cells = meshCells(
+      size,
+      breaks,
       center,
-      100,
       hue,
       chroma,
       lightness,
       contrast,
-      spread
+      spread,
+      gamutMapping,
+      colorSpace
     );
+    const color = (p: TernaryPoint) =>
+      ColorMapping.colorMapTricolore(
+        [p],
+        center,
+        breaks,
+        hue,
+        chroma,
+        lightness,
+        contrast,
+        spread,
+        gamutMapping,
+        colorSpace
+      )[0].rgb;
+    const cellOf = (p: TernaryPoint) => TernaryGeometry.ternaryMeshCell(p, breaks);
+    const field = frequencyCells(cells, cellOf, points, options, data);
+    const layers = legendLayers(size, field, points, center, options, color, data);
+    this.clear();
+    this.setPlot(size, center, points, options, color, cells, cellOf);
+    this.draw(layers);
+
+    return issues;
+  }
 
-    // Group vertices by triangle id
-    const triangleGroups = group(vertices, (d: any) => d.id);
+  /**
+   * Create a sextant ternary plot
+   *
+   * @param data - Array of ternary points, or of records
+   * @param options - Visualization options, with the style of the data points
+   *  (and accessors for records)
+   *
+   * @returns Invalid ternary points found in the data
+   *
+   * @throws Error - If validation is 'strict' and data contains invalid ternary points
+   */
+  createSextantPlot<T = TernaryPoint>(
+    data: TernaryPoint[] | T[] = [],
+    options: PlotOptions<T> & { values?: string[] } = {}
+  ): ValidationIssue[] {
+    const { points, issues } = prepareCompositions(compositions(data, options), options);
+    const { center, values } = fitSextantOptions(options, points);
 
-    // Create a polygon for each triangle
-    triangleGroups.forEach((triangleVertices: any, id: unknown) => {
-      const points = triangleVertices
-        .map((v: any) => {
-          const [x, y] = this.ternaryToSvgCoords([v.p1, v.p2, v.p3], size);
-          return `${x},${y}`;
-        })
-        .join(' ');
+    if (values.length !== 6) {
+      throw new Error('Sextant plot requires exactly 6 color values');
+    }
 
-      const color = colors[Number(id) - 1].rgb;
+    const size = plotSize(this.width, this.height, this.margin);
 
-      const polygon = createSvgElement('polygon', {
-        points,
-        fill: color,
-        stroke: 'none',
-      });
-      this.triangle.appendChild(polygon);
-    });
+    // Create a polygon for each sextant, then draw
+    // triangle border, axes and data points
+    const cells = sextantCells(size, center, values);
+    const color = (p: TernaryPoint) => ColorMapping.colorMapSextant([p], center, values)[0].rgb;
+    const cellOf = (p: TernaryPoint) => TernaryGeometry.ternarySurroundingSextant([p], center)[0];
+    const field = frequencyCells(cells, cellOf, points, options, data);
+    const layers = legendLayers(size, field, points, center, options, color, data);
+    this.clear();
+    this.setPlot(size, center, points, options, color, cells, cellOf);
+    this.draw(layers);
 
-    // Draw triangle border and axes
-    this.drawTriangleFrame(size, labels, center, showCenter, showLines, labelPosition);
+    return issues;
+  }
 
-    // Add data points if requested
-    if (showData && data.length > 0) {
-      this.addDataPoints(data, size);
-    }
+  /**
+   * Serialize the current plot to a standalone SVG document (the colored
+   * triangle of continuous plots is embedded as an image, and the computed
+   * text properties are inlined: font, spacing, decoration, alignment, fill
+   * and stroke; other styles of the page, e.g. CSS filters or web fonts
+   * that are not installed, are not included)
+   *
+   * When the colored triangle is rendered in a web worker, wait for the
+   * Promise returned by createContinuousPlot (or use toBlob) to include it.
+   *
+   * @returns SVG markup of the plot
+   */
+  toSVGString(): string {
+    return serializeSvgElement(this.svg);
   }
 
   /**
-   * Create a sextant ternary plot
+   * Export the current plot as an SVG or PNG file, once the colored
+   * triangle is rendered
    *
-   * @param data - Array of ternary points
-   * @param options - Visualization options
+   * @param type - MIME type of the file: 'image/svg+xml' (default) or 'image/png'
+   * @param pixelRatio - Number of pixels per CSS pixel of a PNG image
+   *  (default: window.devicePixelRatio, or 1)
+   * @returns Content of the file
    *
-   * @throws Error - If showData is true and data contains invalid ternary points
+   * @throws Error - If the type is not supported, or the browser can't render the PNG image
    */
-  createSextantPlot(
-    data: TernaryPoint[] = [],
-    options: Partial<VisualizationOptions> & { values?: string[] } = {}
-  ): void {
-    const {
-      center = [1 / 3, 1 / 3, 1 / 3],
-      values = ['#FFFF00', '#B3DCC3', '#01A0C6', '#B8B3D8', '#F11D8C', '#FFB3B3'],
-      showData = true,
-      showCenter = true,
-      showLines = true,
-      labels = ['p₁', 'p₂', 'p₃'],
-      labelPosition = 'corner',
-    } = options;
+  async toBlob(
+    type: 'image/svg+xml' | 'image/png' = 'image/svg+xml',
+    pixelRatio: number = typeof devicePixelRatio === 'number' ? devicePixelRatio : 1
+  ): Promise<Blob> {
+    if (type !== 'image/svg+xml' && type !== 'image/png') {
+      throw new Error(`Unsupported export type: ${String(type)}`);
+    }
 
-    if (values.length !== 6) {
-      throw new Error('Sextant plot requires exactly 6 color values');
+    await this.rendered;
+    const markup = this.toSVGString();
+    if (type === 'image/png') {
+      return rasterizeSvg(markup, this.width, this.height, pixelRatio);
     }
+    return new Blob([markup], { type: 'image/svg+xml;charset=utf-8' });
+  }
 
-    const plotWidth = this.width - this.margin.left - this.margin.right;
-    const plotHeight = this.height - this.margin.top - this.margin.bottom;
-    const size = Math.min(plotWidth, plotHeight);
+  /**
+   * Download the current plot as an SVG or PNG file
+   * (the format is chosen from the extension of the filename)
+   *
+   * @param filename - Name of the file (default: 'tricolore.svg')
+   *
+   * @throws Error - If the browser can't render the PNG image
+   */
+  async download(filename: string = 'tricolore.svg'): Promise<void> {
+    const type = /\.png$/i.test(filename) ? 'image/png' : 'image/svg+xml';
+    downloadBlob(await this.toBlob(type), filename);
+  }
 
-    // Clear previous contents
-    this.triangle.innerHTML = '';
-    this.legend.innerHTML = '';
-    this.circles.innerHTML = '';
+  /**
+   * Create a continuous ternary plot (see createContinuousPlot)
+   */
+  private continuousPlot<T>(
+    data: TernaryPoint[] | T[],
+    options: PlotOptions<T>
+  ): ValidationIssue[] | Promise<ValidationIssue[]> {
+    const { points, issues } = prepareCompositions(compositions(data, options), options);
+    const { center, hue, chroma, lightness, contrast, spread, gamutMapping, colorSpace } =
+      fitTricoloreOptions(options, points);
+    const {
+      worker = false,
+      rendering = 'raster',
+      resolution = 40,
+      pixelRatio = typeof devicePixelRatio === 'number' ? devicePixelRatio : 1,
+    } = options;
+    const size = plotSize(this.width, this.height, this.margin);
 
-    // Generate sextant vertices
-    const vertices = TernaryGeometry.ternarySextantVertices(center);
+    // Cancel the rendering of the previous plot, if still in progress
+    this.legendRenderer.cancel();
 
-    // Group vertices by sextant id
-    const sextantGroups = group(vertices, (d: any) => d.id);
+    // Remove any existing canvas
+    if (this.canvas) {
+      this.canvas.remove();
+      this.canvas = null;
+      this.ctx = null;
+    }
+
+    // Draw the colored triangle as a fine mesh of SVG polygons with vector
+    // rendering, and triangle border, axes and data points using SVG
+    const cells =
+      rendering === 'vector'
+        ? continuousMeshCells(
+            size,
+            resolution,
+            center,
+            hue,
+            chroma,
+            lightness,
+            contrast,
+            spread,
+            gamutMapping,
+            colorSpace
+          )
+        : [];
+    const color = (p: TernaryPoint) =>
+      ColorMapping.colorMapTricolore(
+        [p],
+        center,
+        Infinity,
+        hue,
+        chroma,
+        lightness,
+        contrast,
+        spread,
+        gamutMapping,
+        colorSpace
+      )[0].rgb;
+    const layers = legendLayers(size, cells, points, center, options, color, data);
+
+    this.clear();
+    this.setPlot(size, center, points, options, color);
+
+    if (rendering === 'vector') {
+      this.draw(layers);
+      return worker ? Promise.resolve(issues) : issues;
+    }
 
-    // Create a polygon for each sextant
-    sextantGroups.forEach((sextantVertices: any, id: unknown) => {
-      // Sort vertices by vertex id to ensure proper polygon drawing
-      sextantVertices.sort((a: any, b: any) => a.vertex - b.vertex);
+    // Create canvas for continuous color rendering,
+    // with pixelRatio canvas pixels per CSS pixel
+    const pixelSize = Math.max(1, Math.round(size * pixelRatio));
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = pixelSize;
+    this.canvas.height = pixelSize;
+    this.ctx = this.canvas.getContext('2d');
 
-      const points = sextantVertices
-        .map((v: any) => {
-          const [x, y] = this.ternaryToSvgCoords([v.p1, v.p2, v.p3], size);
-          return `${x},${y}`;
-        })
-        .join(' ');
+    if (!this.ctx) return worker ? Promise.resolve(issues) : issues;
 
-      const colorIndex = Number(id) - 1;
+    // Position canvas
+    const image = toSvgElement(svgNode('image', { x: 0, y: 0, width: size, height: size }));
+    this.triangle.appendChild(image);
 
-      const polygon = createSvgElement('polygon', {
-        points,
-        fill: values[colorIndex],
-        stroke: 'none',
-      });
-      this.triangle.appendChild(polygon);
-    });
+    // Draw the colored triangle on canvas
+    const drawn = this.drawContinuousTriangle(
+      image,
+      pixelSize,
+      center,
+      hue,
+      chroma,
+      lightness,
+      contrast,
+      spread,
+      gamutMapping,
+      colorSpace,
+      worker
+    );
 
-    // Draw triangle border and axes
-    this.drawTriangleFrame(size, labels, center, showCenter, showLines, labelPosition);
+    // Add triangle border, axes and data points using SVG
+    this.draw(layers);
 
-    // Add data points if requested
-    if (showData && data.length > 0) {
-      this.addDataPoints(data, size);
-    }
+    this.rendered = drawn ?? Promise.resolve();
+    return drawn ? drawn.then(() => issues) : issues;
   }
 
   /**
-   * Draw the continuous colored triangle on canvas
+   * Draw the continuous colored triangle on canvas, and show it in the image
+   * (returns a Promise when rendering in a web worker)
    */
   private drawContinuousTriangle(
+    image: SVGElement,
     size: number,
     center: TernaryPoint,
     hue: number,
     chroma: number,
     lightness: number,
     contrast: number,
-    spread: number
-  ): void {
-    if (!this.ctx) return;
-
-    const resolution = size;
-    const imageData = this.ctx.createImageData(resolution, resolution);
-
-    for (let y = 0; y < resolution; y++) {
-      for (let x = 0; x < resolution; x++) {
-        // Convert from pixel coordinates to ternary coordinates
-        const [p1, p2, p3] = this.svgToTernaryCoords([x, y], resolution);
-
-        // Skip pixels outside the triangle
-        if (p1 < 0 || p2 < 0 || p3 < 0 || p1 > 1 || p2 > 1 || p3 > 1) {
-          continue;
-        }
-
-        // Calculate color for this point
-        const color = ColorMapping.colorMapTricolore(
-          [[p1, p2, p3]],
-          center,
-          100,
-          hue,
-          chroma,
-          lightness,
-          contrast,
-          spread
-        )[0];
-
-        // Parse the hex color
-        const r = parseInt(color.rgb!.slice(1, 3), 16);
-        const g = parseInt(color.rgb!.slice(3, 5), 16);
-        const b = parseInt(color.rgb!.slice(5, 7), 16);
-
-        // Set the pixel color
-        const pixelIndex = (y * resolution + x) * 4;
-        imageData.data[pixelIndex] = r;
-        imageData.data[pixelIndex + 1] = g;
-        imageData.data[pixelIndex + 2] = b;
-        imageData.data[pixelIndex + 3] = 255;
-      }
+    spread: number,
+    gamutMapping: GamutMapping,
+    colorSpace: ColorSpace,
+    worker: boolean
+  ): Promise<void> | void {
+    const { canvas, ctx } = this;
+    if (!canvas || !ctx) return;
+
+    const paint = (pixels: Uint8ClampedArray) => {
+      const imageData = ctx.createImageData(size, size);
+      imageData.data.set(pixels);
+      ctx.putImageData(imageData, 0, 0);
+      image.setAttribute('href', canvas.toDataURL());
+    };
+
+    const args = [
+      size,
+      center,
+      hue,
+      chroma,
+      lightness,
+      contrast,
+      spread,
+      gamutMapping,
+      colorSpace,
+    ] as const;
+
+    if (!worker) {
+      paint(continuousLegendPixels(...args));
+      return;
     }
 
-    this.ctx.putImageData(imageData, 0, 0);
+    return this.legendRenderer.render(...args).then((pixels) => {
+      // Nothing to draw if a more recent plot cancelled the rendering
+      if (pixels) paint(pixels);
+    });
+  }
+
+  /**
+   * Remove the contents of the plot
+   */
+  private clear(): void {
+    this.triangle.innerHTML = '';
+    this.legend.innerHTML = '';
+    this.circles.innerHTML = '';
+    this.overlay.innerHTML = '';
+    this.highlightLayer.innerHTML = '';
+    this.highlighted.clear();
+    this.clearSelection();
   }
 
   /**
-   * Draw the triangle frame, axes and labels
+   * Keep the settings of the current plot used by the interactions
    */
-  private drawTriangleFrame(
+  private setPlot(
     size: number,
-    labels: [string, string, string],
     center: TernaryPoint,
-    showCenter: boolean,
-    showLines: boolean,
-    labelPosition: 'corner' | 'edge' = 'corner'
+    data: TernaryPoint[],
+    options: Partial<VisualizationOptions>,
+    color: (p: TernaryPoint) => RGBColor | null,
+    cells: SvgNode[] = [],
+    cellOf: ((p: TernaryPoint) => number | null) | null = null
   ): void {
-    // Define triangle corners in ternary coordinates
-    // and convert to SVG coordinates
-    const corners = [
-      [1, 0, 0], // bottom left (p1)
-      [0, 1, 0], // top (p2)
-      [0, 0, 1], // bottom right (p3)
-    ] as TernaryPoint[];
-
-    const svgCorners = corners.map((p) => this.ternaryToSvgCoords(p, size));
-
-    // Create the triangle border
-    const points = svgCorners.map((p) => p.join(',')).join(' ');
-    const border = createSvgElement('polygon', {
-      points,
-      fill: 'none',
-      stroke: 'black',
-      'stroke-width': 1,
-    });
-    this.triangle.appendChild(border);
-
-    // Add axis names
-    if (labelPosition === 'edge') {
-      const labelPositions = [
-        [
-          (svgCorners[0][0] + svgCorners[1][0]) / 2 - 35,
-          (svgCorners[0][1] + svgCorners[1][1]) / 2 - 14,
-        ], // p1
-        [
-          (svgCorners[1][0] + svgCorners[2][0]) / 2 + 35,
-          (svgCorners[1][1] + svgCorners[2][1]) / 2 - 14,
-        ], // p2
-        [(svgCorners[0][0] + svgCorners[2][0]) / 2, (svgCorners[0][1] + svgCorners[2][1]) / 2 + 25], // p3
-      ];
-
-      const rotateValues = [-60, 60, 0];
-
-      labels.forEach((label, i) => {
-        const text = createSvgElement('text', {
-          x: labelPositions[i][0],
-          y: labelPositions[i][1],
-          'text-anchor': 'middle',
-          'dominant-baseline': 'middle',
-          transform: `rotate(${rotateValues[i]},${labelPositions[i][0]},${labelPositions[i][1]})`,
-        });
-        text.textContent = label;
-        this.legend.appendChild(text);
-      });
-    } else {
-      // 'corner'
-      const labelPositions = [
-        [svgCorners[0][0], svgCorners[0][1] + 25], // p1
-        [svgCorners[1][0], svgCorners[1][1] - 15], // p2
-        [svgCorners[2][0], svgCorners[2][1] + 25], // p3
-      ];
-
-      labels.forEach((label, i) => {
-        const text = createSvgElement('text', {
-          x: labelPositions[i][0],
-          y: labelPositions[i][1],
-          'text-anchor': 'middle',
-        });
-        text.textContent = label;
-        this.legend.appendChild(text);
-      });
-    }
+    const {
+      labels = ['p₁', 'p₂', 'p₃'],
+      tickDirection = 'counterclockwise',
+      hover = false,
+      brush = 'none',
+    } = options;
+    const points = CompositionUtils.close([...data]).flatMap((point, id) =>
+      point ? [{ point, id }] : []
+    );
+    this.plot = { size, center, labels, tickDirection, hover, brush, color, points, cells, cellOf };
 
-    // Add grid lines and labels at 25%, 50%, 75% for each axis
-    const gridValues = [0.25, 0.5, 0.75];
-
-    if (showLines) {
-      // p1 grid lines
-      gridValues.forEach((val) => {
-        const line = [
-          this.ternaryToSvgCoords([val, 0, 1 - val], size),
-          this.ternaryToSvgCoords([val, 1 - val, 0], size),
-        ];
-
-        this.legend.appendChild(
-          createSvgElement('line', {
-            x1: line[0][0],
-            y1: line[0][1],
-            x2: line[1][0],
-            y2: line[1][1],
-            stroke: '#aaa',
-            'stroke-width': 0.5,
-            opacity: 0.7,
-          })
-        );
-      });
+    // Let touch drags select points instead of scrolling the page
+    this.svg.style.touchAction = brush === 'none' ? '' : 'none';
+  }
 
-      // p2 grid lines
-      gridValues.forEach((val) => {
-        const line = [
-          this.ternaryToSvgCoords([0, val, 1 - val], size),
-          this.ternaryToSvgCoords([1 - val, val, 0], size),
-        ];
-
-        this.legend.appendChild(
-          createSvgElement('line', {
-            x1: line[0][0],
-            y1: line[0][1],
-            x2: line[1][0],
-            y2: line[1][1],
-            stroke: '#aaa',
-            'stroke-width': 0.5,
-            opacity: 0.7,
-          })
-        );
-      });
+  /**
+   * Call the listeners of an event
+   */
+  private emit<K extends keyof TricoloreVizEvents>(type: K, value: TricoloreVizEvents[K]): void {
+    this.listeners[type].forEach((listener) => listener(value));
+  }
 
-      // p3 grid lines
-      gridValues.forEach((val) => {
-        const line = [
-          this.ternaryToSvgCoords([1 - val, 0, val], size),
-          this.ternaryToSvgCoords([0, 1 - val, val], size),
-        ];
-
-        this.legend.appendChild(
-          createSvgElement('line', {
-            x1: line[0][0],
-            y1: line[0][1],
-            x2: line[1][0],
-            y2: line[1][1],
-            stroke: '#aaa',
-            'stroke-width': 0.5,
-            opacity: 0.7,
-          })
-        );
-      });
+  /**
+   * Position of the pointer in the coordinates of the triangle
+   */
+  private pointerPosition(event: PointerEvent): [number, number] {
+    // The SVG may be scaled by CSS
+    const rect = this.svg.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? this.width / rect.width : 1;
+    const scaleY = rect.height > 0 ? this.height / rect.height : 1;
+    return [
+      (event.clientX - rect.left) * scaleX - this.margin.left,
+      (event.clientY - rect.top) * scaleY - this.margin.top,
+    ];
+  }
+
+  /**
+   * Start a brush drag (or a click) on the triangle
+   */
+  private pointerDown(event: PointerEvent): void {
+    const { plot } = this;
+    if (!plot || plot.brush === 'none' || event.button !== 0) return;
+
+    const position = this.pointerPosition(event);
+    if (!svgToTernaryCoords(position, plot.size).every((p) => p >= 0)) return;
+
+    this.svg.setPointerCapture?.(event.pointerId);
+    this.drag = { start: position, path: [position] };
+    this.pointerLeave();
+  }
+
+  /**
+   * Extend the brush while dragging, or read out the composition under the pointer
+   */
+  private pointerMove(event: PointerEvent): void {
+    const { plot, drag } = this;
+    if (!plot) return;
+
+    if (drag) {
+      drag.path.push(this.pointerPosition(event));
+      this.brushLayer.innerHTML = '';
+      this.brushLayer.appendChild(toSvgElement(selectionShape(this.brushVertices(plot, drag))));
+      return;
     }
 
-    // Show center point (+ extended lines from this center) if requested
-    if (showCenter) {
-      const [cx, cy] = this.ternaryToSvgCoords(center, size);
+    if (!plot.hover) return;
 
-      const circle = createSvgElement('circle', {
-        cx,
-        cy,
-        r: 3,
-        fill: 'black',
-        stroke: 'white',
-      });
-      this.triangle.appendChild(circle);
-
-      const p1Line = [
-        this.ternaryToSvgCoords([center[0], 0, 1 - center[0]], size),
-        this.ternaryToSvgCoords([center[0], 1 - center[0], 0], size),
-      ];
-
-      const p2Line = [
-        this.ternaryToSvgCoords([0, center[1], 1 - center[1]], size),
-        this.ternaryToSvgCoords([1 - center[1], center[1], 0], size),
-      ];
-
-      const p3Line = [
-        this.ternaryToSvgCoords([0, 1 - center[2], center[2]], size),
-        this.ternaryToSvgCoords([1 - center[2], 0, center[2]], size),
-      ];
-
-      [p1Line, p2Line, p3Line].forEach((line) => {
-        this.triangle.appendChild(
-          createSvgElement('line', {
-            x1: line[0][0],
-            y1: line[0][1],
-            x2: line[1][0],
-            y2: line[1][1],
-            stroke: 'black',
-            'stroke-width': 0.5,
-            opacity: 0.5,
-          })
-        );
-      });
+    const point = svgToTernaryCoords(this.pointerPosition(event), plot.size);
+    if (!point.every((p) => p >= 0)) {
+      this.pointerLeave();
+      return;
     }
 
-    // Add labels along the grid lines (whether lines are shown or not)
-    gridValues.forEach((val) => {
-      const line = [
-        this.ternaryToSvgCoords([val, 1 - val, 0], size),
-        this.ternaryToSvgCoords([val, 0, 1 - val], size),
-      ];
-      const text = createSvgElement('text', {
-        x: line[0][0] - 5,
-        y: line[0][1],
-        'text-anchor': 'end',
-        'font-size': '10px',
-      });
-      text.textContent = `${val * 100}%`;
-      this.legend.appendChild(text);
-    });
-    gridValues.forEach((val) => {
-      const line = [
-        this.ternaryToSvgCoords([0, val, 1 - val], size),
-        this.ternaryToSvgCoords([1 - val, val, 0], size),
-      ];
-      const text = createSvgElement('text', {
-        x: line[0][0] + 5,
-        y: line[0][1],
-        'text-anchor': 'start',
-        'font-size': '10px',
-      });
-      text.textContent = `${val * 100}%`;
-      this.legend.appendChild(text);
-    });
-    gridValues.forEach((val) => {
-      const line = [
-        this.ternaryToSvgCoords([1 - val, 0, val], size),
-        this.ternaryToSvgCoords([0, 1 - val, val], size),
-      ];
-      const text = createSvgElement('text', {
-        x: line[0][0],
-        y: line[0][1] + 10,
-        'text-anchor': 'middle',
-        'font-size': '10px',
-      });
-      text.textContent = `${val * 100}%`;
-      this.legend.appendChild(text);
+    this.overlay.innerHTML = '';
+    hoverReadout(plot.size, point, plot.center, plot.labels, plot.tickDirection).forEach((node) =>
+      this.overlay.appendChild(toSvgElement(node))
+    );
+
+    this.emit('hover', {
+      point,
+      deviation: point.map((p, i) => p - plot.center[i]) as TernaryPoint,
+      color: plot.color(point),
     });
   }
 
   /**
-   * Add data points to the visualization
+   * Select the points inside the brush, or in the clicked cell
    */
-  private addDataPoints(data: TernaryPoint[], size: number): void {
-    const closed = CompositionUtils.close([...data]);
-    // Validate data (this will throw an error if invalid)
-    CompositionUtils.validateTernaryPoints(closed);
-    // TODO: decide if we want
-    //  - to throw an error (current behavior)
-    //  - to silently ignore invalid points
-    //  - to filter out invalid points and warn about it
-    //  - to warn and skip plotting points
-    // try {
-    //   CompositionUtils.validateTernaryPoints(data);
-    // } catch (e) {
-    //   console.warn('Invalid ternary points:', e);
-    //   return;
-    // }
-
-    closed.forEach((p, i) => {
-      if (p) {
-        const [x, y] = this.ternaryToSvgCoords(p, size);
-
-        const circle = createSvgElement('circle', {
-          cx: x,
-          cy: y,
-          r: 2,
-          fill: 'black',
-          opacity: 0.5,
-        });
-        // Attach data as a property (replaces d3's .datum())
-        (circle as any).__data__ = { point: p, id: i };
-        this.circles.appendChild(circle);
-      }
+  private pointerUp(event: PointerEvent): void {
+    const { plot, drag } = this;
+    if (!plot || !drag) return;
+    this.drag = null;
+
+    // A drag that stays close to where it started (e.g. a lasso may end there) is a click
+    drag.path.push(this.pointerPosition(event));
+    const [x0, y0] = drag.start;
+    if (drag.path.every(([x, y]) => Math.hypot(x - x0, y - y0) < CLICK_DISTANCE)) {
+      this.selectCell(plot, svgToTernaryCoords(drag.start, plot.size));
+      return;
+    }
+
+    const vertices = this.brushVertices(plot, drag);
+    this.brushLayer.innerHTML = '';
+    this.brushLayer.appendChild(toSvgElement(selectionShape(vertices)));
+
+    let selection: TernarySelection;
+    if (plot.brush === 'ranges') {
+      const ranges = this.brushRanges(plot, drag);
+      const ids = plot.points
+        .filter(({ point }) => ranges.every(([min, max], i) => point[i] >= min && point[i] <= max))
+        .map(({ id }) => id);
+      selection = { ids, mode: 'ranges', ranges };
+    } else {
+      const ids = plot.points
+        .filter(({ point }) => insidePolygon(...ternaryToSvgCoords(point, plot.size), vertices))
+        .map(({ id }) => id);
+      const polygon = vertices.map((v) => svgToTernaryCoords(v, plot.size));
+      selection = { ids, mode: 'lasso', polygon };
+    }
+
+    this.emit('select', selection);
+  }
+
+  /**
+   * Select the points in the cell holding a composition (clicking outside
+   * of the cells clears the selection)
+   */
+  private selectCell(plot: PlotState, point: TernaryPoint): void {
+    const cell = plot.cellOf && point.every((p) => p >= 0) ? plot.cellOf(point) : null;
+    if (cell === null || !plot.cells[cell - 1]) {
+      this.clearSelection();
+      return;
+    }
+
+    const outline = String(plot.cells[cell - 1].attrs.points)
+      .split(' ')
+      .map((pair) => pair.split(',').map(Number) as [number, number]);
+    this.brushLayer.innerHTML = '';
+    this.brushLayer.appendChild(toSvgElement(selectionShape(outline)));
+
+    this.emit('select', {
+      ids: plot.points.filter(({ point }) => plot.cellOf!(point) === cell).map(({ id }) => id),
+      mode: 'cell',
+      cell,
     });
   }
 
   /**
-   * Convert ternary coordinates to SVG coordinates
+   * Ranges of the three parts between the compositions where a drag
+   * starts and ends (clamped to the triangle)
    */
-  private ternaryToSvgCoords(p: TernaryPoint, size: number): [number, number] {
-    const [x, y] = TernaryGeometry.ternaryToCartesian(p);
-    return [x * size, size - y * size];
+  private brushRanges(
+    plot: PlotState,
+    drag: Drag
+  ): [[number, number], [number, number], [number, number]] {
+    const [a, b] = [drag.start, drag.path[drag.path.length - 1]].map((position) =>
+      svgToTernaryCoords(position, plot.size).map((p) => Math.min(Math.max(p, 0), 1))
+    );
+    return [0, 1, 2].map((i) => [Math.min(a[i], b[i]), Math.max(a[i], b[i])]) as [
+      [number, number],
+      [number, number],
+      [number, number],
+    ];
+  }
+
+  /**
+   * Vertices of the region of a brush, in the coordinates of the triangle
+   */
+  private brushVertices(plot: PlotState, drag: Drag): [number, number][] {
+    if (plot.brush === 'ranges') {
+      return rangePolygon(this.brushRanges(plot, drag)).map((p) =>
+        ternaryToSvgCoords(p, plot.size)
+      );
+    }
+    return drag.path;
   }
 
   /**
-   * Convert SVG coordinates to ternary coordinates
+   * Hide the readout when the pointer leaves the triangle
    */
-  private svgToTernaryCoords(point: [number, number], size: number): TernaryPoint {
-    return TernaryGeometry.cartesianToTernary(point[0] / size, 1 - point[1] / size);
+  private pointerLeave(): void {
+    if (this.overlay.childNodes.length === 0) return;
+    this.overlay.innerHTML = '';
+    this.emit('hover', null);
+  }
+
+  /**
+   * Append the elements of a plot to their groups
+   */
+  private draw(layers: LegendLayers): void {
+    const append = (group: SVGGElement, nodes: SvgNode[]) =>
+      nodes.forEach((node) => group.appendChild(toSvgElement(node)));
+
+    append(this.triangle, layers.triangle);
+    append(this.legend, layers.legend);
+    append(this.circles, layers.circles);
+
+    if (this.pointStyle) this.stylePoints();
+  }
+
+  /**
+   * Apply the style of the data points, and draw the highlighted points on top
+   */
+  private stylePoints(): void {
+    const raised: SVGElement[] = [];
+    this.circles.childNodes.forEach((node) => {
+      const circle = node as SVGElement & { __data__?: DataPoint };
+      if (!circle.__data__) return;
+
+      const { point, id, datum, style } = circle.__data__;
+      const highlighted = this.highlighted.has(id);
+      const attrs = pointAttributes({
+        ...(highlighted ? highlightedPointStyle(style) : style),
+        ...this.pointStyle?.(point, id, highlighted, datum),
+      });
+      Object.entries(attrs).forEach(([key, value]) => {
+        if (value === null) circle.removeAttribute(key);
+        else circle.setAttribute(key, String(value));
+      });
+      if (highlighted) raised.push(circle);
+    });
+    raised.forEach((circle) => this.circles.appendChild(circle));
   }
 }
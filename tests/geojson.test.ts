@@ -0,0 +1,99 @@
+import { colorizeGeoJSON } from '../src/core/geojson';
+import { TricoloreScale, SextantScale } from '../src/core/tricoloreScale';
+import { GeoJSONFeatureCollection, TernaryPoint } from '../src/types';
+
+interface Shares {
+  name: string;
+  a: number;
+  b: number;
+  c: number;
+}
+
+const compositions: TernaryPoint[] = [
+  [0.2, 0.3, 0.5],
+  [0.6, 0.3, 0.1],
+  [0, 1, 1],
+  [-1, 2, 3],
+  [0.4, 0.4, 0.2],
+];
+
+const collection: GeoJSONFeatureCollection<Shares> = {
+  type: 'FeatureCollection',
+  features: compositions.map(([a, b, c], i) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [i, i] },
+    properties: { name: `f${i}`, a, b, c },
+  })),
+};
+
+const accessors = { p1: 'a', p2: 'b', p3: 'c' } as const;
+
+describe('colorizeGeoJSON', () => {
+  it('colors the features with the balance scheme', () => {
+    const options = { ...accessors, center: 'mean', breaks: 4 } as const;
+    const { features } = colorizeGeoJSON(collection, options);
+    const expected = new TricoloreScale(options).results(compositions);
+
+    features.forEach((feature, i) => {
+      expect(feature.geometry).toBe(collection.features[i].geometry);
+      expect(feature.properties?.name).toBe(`f${i}`);
+      expect(feature.properties?.tricolore_rgb).toBe(expected[i].rgb);
+      expect(feature.properties?.tricolore_cell).toBe(expected[i].cell);
+    });
+  });
+
+  it('colors the features with the sextant scheme', () => {
+    const options = { ...accessors, scheme: 'sextant', center: 'mean' } as const;
+    const { features } = colorizeGeoJSON(collection, options);
+    const expected = new SextantScale(options).results(compositions);
+
+    features.forEach((feature, i) => {
+      expect(feature.properties?.tricolore_rgb).toBe(expected[i].rgb);
+      expect(feature.properties?.tricolore_sextant).toBe(expected[i].sextant);
+      expect(feature.properties?.tricolore_cell).toBeUndefined();
+    });
+  });
+
+  it('stores the closed composition read from the feature', () => {
+    const { features } = colorizeGeoJSON(collection, {
+      ...accessors,
+      zeroReplacement: 'multiplicative',
+    });
+
+    expect(features[2].properties).toMatchObject({
+      tricolore_p1: 0,
+      tricolore_p2: 0.5,
+      tricolore_p3: 0.5,
+      tricolore_valid: true,
+    });
+    expect(features[2].properties?.tricolore_rgb).not.toBeNull();
+  });
+
+  it('marks the invalid features and leaves their fields empty', () => {
+    const { features } = colorizeGeoJSON(collection, accessors);
+
+    expect(features[3].properties).toMatchObject({
+      tricolore_rgb: null,
+      tricolore_p1: null,
+      tricolore_p2: null,
+      tricolore_p3: null,
+      tricolore_cell: null,
+      tricolore_valid: false,
+    });
+    features
+      .filter((_, i) => i !== 3)
+      .forEach((feature) => expect(feature.properties?.tricolore_valid).toBe(true));
+  });
+
+  it('warns once about the invalid features', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      colorizeGeoJSON(collection, { ...accessors, validation: 'warn' });
+      colorizeGeoJSON(collection, { ...accessors, scheme: 'sextant', validation: 'warn' });
+      expect(warn).toHaveBeenCalledTimes(2);
+      expect(warn.mock.calls[0][0]).toMatch(/^Excluded 1 invalid ternary point/);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,68 @@
+import { ColorMapping } from '../src/core/colorMapping';
+import { ColorSpace, GamutMapping, TernaryPoint } from '../src/types';
+
+// The pixel kernel rendering legends in web workers re-implements the color
+// pipeline of ColorConversion and ColorMapping: check that both give the same colors
+
+// Compositions on a grid covering the triangle, edges and corners included
+const k = 24;
+const points: TernaryPoint[] = [];
+for (let i = 0; i <= k; i++) {
+  for (let j = 0; j <= k - i; j++) {
+    points.push([i / k, j / k, (k - i - j) / k]);
+  }
+}
+
+const hex = (bytes: Uint8ClampedArray, i: number) =>
+  `#${[0, 1, 2].map((c) => bytes[4 * i + c].toString(16).padStart(2, '0')).join('')}`;
+
+const colorSpaces: ColorSpace[] = ['lch-ab', 'oklch', 'lch-uv'];
+const gamutMappings: GamutMapping[] = ['clip', 'chroma'];
+const schemes = [
+  { center: [1 / 3, 1 / 3, 1 / 3], breaks: Infinity, hue: 80, chroma: 140, spread: 1 },
+  { center: [0.5, 0.3, 0.2], breaks: Infinity, hue: 200, chroma: 200, spread: 2 },
+  { center: [0.2, 0.2, 0.6], breaks: 5, hue: 10, chroma: 90, spread: 0.7 },
+];
+
+describe('tricolorePixels', () => {
+  colorSpaces.forEach((colorSpace) => {
+    gamutMappings.forEach((gamutMapping) => {
+      it(`matches colorMapTricolore in ${colorSpace} with ${gamutMapping} gamut mapping`, () => {
+        schemes.forEach(({ center, breaks, hue, chroma, spread }) => {
+          const args = [
+            center as TernaryPoint,
+            breaks,
+            hue,
+            chroma,
+            80,
+            0.4,
+            spread,
+            gamutMapping,
+            colorSpace,
+          ] as const;
+          const expected = ColorMapping.colorMapTricolore(points, ...args).map((r) => r.rgb);
+          const bytes = ColorMapping.colorMapTricoloreBuffer(
+            Float64Array.from(points.flat()),
+            ...args
+          ) as Uint8ClampedArray;
+
+          expect(points.map((_, i) => hex(bytes, i))).toEqual(expected);
+        });
+      });
+    });
+  });
+
+  it('writes invalid compositions as transparent black', () => {
+    const bytes = ColorMapping.colorMapTricoloreBuffer(
+      Float64Array.from([NaN, 1, 1, -1, 1, 1, 0, 0, 0]),
+      [1 / 3, 1 / 3, 1 / 3],
+      Infinity,
+      80,
+      140,
+      80,
+      0.4,
+      1
+    );
+    expect([...bytes]).toEqual(new Array(12).fill(0));
+  });
+});